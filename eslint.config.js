@@ -13,6 +13,13 @@ export default defineConfig([
     },
 
     // You can add your own configuration to override or add rules
-    rules: {},
+    rules: {
+      "obsidianmd/ui/sentence-case": ["error", { enforceCamelCaseLower: true, ignoreWords: ["SGF", "Go"] }],
+    },
+  },
+  {
+    // goban-render runs in Node, not in Obsidian
+    files: ["src/cli.ts"],
+    rules: { "obsidianmd/no-nodejs-modules": "off" },
   },
 ]);
@@ -2,7 +2,7 @@ import typescript from "@rollup/plugin-typescript";
 import { nodeResolve } from "@rollup/plugin-node-resolve";
 import commonjs from "@rollup/plugin-commonjs";
 
-export default {
+const plugin = {
   input: "./src/main.ts",
   output: {
     dir: ".",
@@ -19,3 +19,26 @@ export default {
     commonjs(),
   ],
 };
+
+// goban-render, the command line renderer
+const cli = {
+  input: "./src/cli.ts",
+  output: {
+    file: "dist/goban-render.mjs",
+    format: "es",
+    banner: "#!/usr/bin/env node",
+  },
+  external: ["fs", "process"],
+  plugins: [
+    typescript({
+      tsconfig: "./tsconfig.json",
+      outDir: "dist",
+      inlineSourceMap: false,
+      inlineSources: false,
+    }),
+    nodeResolve(),
+    commonjs(),
+  ],
+};
+
+export default [plugin, cli];
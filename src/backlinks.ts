@@ -0,0 +1,123 @@
+/**
+ * The links of the diagrams in the link graph of the metadata cache.
+ *
+ * The metadata cache does not look into code blocks, so it leaves the links
+ * of the goban blocks out of the backlinks and the graph view. The index
+ * keeps the link texts of the diagrams of each note, from the content the
+ * cache sends with its "changed" event, and adds them to the links of the
+ * note each time the cache resolves it.
+ **/
+
+import { App, getLinkpath, Plugin } from "obsidian";
+import { diagramLinks } from "./links";
+
+type LinkCounts = Record<string, number>;
+
+/** The counts added to the links of a note, and the objects of the cache they were added to. */
+interface AddedLinks {
+  resolved: LinkCounts;
+  unresolved: LinkCounts;
+  resolvedInto: LinkCounts;
+  unresolvedInto: LinkCounts;
+}
+
+export class DiagramLinkIndex {
+  private notes = new Map<string, string[]>();
+  private added = new Map<string, AddedLinks>();
+
+  constructor(private app: App) {}
+
+  /** Follow the changes of the notes for as long as the plugin is loaded. */
+  register(plugin: Plugin): void {
+    const { metadataCache, vault } = this.app;
+    plugin.registerEvent(
+      metadataCache.on("changed", (file, content) => {
+        if (file.extension !== "md") return;
+        const links = diagramLinks(content);
+        if (links.length > 0) this.notes.set(file.path, links);
+        else this.notes.delete(file.path);
+      })
+    );
+    // the cache resolves a note after each change, and again when a note it links to is created or deleted
+    plugin.registerEvent(metadataCache.on("resolve", (file) => this.addLinks(file.path)));
+    plugin.registerEvent(
+      metadataCache.on("deleted", (file) => {
+        this.notes.delete(file.path);
+        this.added.delete(file.path);
+      })
+    );
+    plugin.registerEvent(
+      vault.on("rename", (file, oldPath) => {
+        for (const map of [this.notes, this.added] as Map<string, unknown>[]) {
+          const value = map.get(oldPath);
+          if (value === undefined) continue;
+          map.delete(oldPath);
+          map.set(file.path, value);
+        }
+      })
+    );
+    this.app.workspace.onLayoutReady(() => void this.load());
+  }
+
+  /** Read the notes with code blocks, add the links of their diagrams and let the views know. */
+  async load(): Promise<void> {
+    const { metadataCache, vault } = this.app;
+    const files = vault
+      .getMarkdownFiles()
+      .filter((file) => metadataCache.getFileCache(file)?.sections?.some((section) => section.type === "code"));
+    await Promise.all(
+      files.map(async (file) => {
+        const content = await vault.cachedRead(file).catch(() => null);
+        // a note changed while the others were read is already up to date
+        if (content === null || this.notes.has(file.path)) return;
+        const links = diagramLinks(content);
+        if (links.length > 0) this.notes.set(file.path, links);
+      })
+    );
+    this.notes.forEach((_, path) => this.addLinks(path));
+    metadataCache.trigger("resolved");
+  }
+
+  /**
+   * Add the links of the diagrams of a note to the links the cache has
+   * resolved in it. The counts added before are taken back first, unless
+   * the cache has replaced the links of the note since.
+   **/
+  private addLinks(path: string): void {
+    const { metadataCache } = this.app;
+    const previous = this.added.get(path);
+    if (previous) {
+      if (metadataCache.resolvedLinks[path] === previous.resolvedInto) subtract(previous.resolvedInto, previous.resolved);
+      if (metadataCache.unresolvedLinks[path] === previous.unresolvedInto) subtract(previous.unresolvedInto, previous.unresolved);
+      this.added.delete(path);
+    }
+    const links = this.notes.get(path);
+    if (!links) return;
+
+    const resolved: LinkCounts = {};
+    const unresolved: LinkCounts = {};
+    for (const link of links) {
+      const linkpath = getLinkpath(link);
+      if (!linkpath) continue;
+      const target = metadataCache.getFirstLinkpathDest(linkpath, path);
+      if (target) resolved[target.path] = (resolved[target.path] ?? 0) + 1;
+      else unresolved[linkpath] = (unresolved[linkpath] ?? 0) + 1;
+    }
+    const resolvedInto = (metadataCache.resolvedLinks[path] = metadataCache.resolvedLinks[path] ?? {});
+    const unresolvedInto = (metadataCache.unresolvedLinks[path] = metadataCache.unresolvedLinks[path] ?? {});
+    add(resolvedInto, resolved);
+    add(unresolvedInto, unresolved);
+    this.added.set(path, { resolved, unresolved, resolvedInto, unresolvedInto });
+  }
+}
+
+function add(links: LinkCounts, counts: LinkCounts): void {
+  for (const key of Object.keys(counts)) links[key] = (links[key] ?? 0) + counts[key];
+}
+
+function subtract(links: LinkCounts, counts: LinkCounts): void {
+  for (const key of Object.keys(counts)) {
+    links[key] = (links[key] ?? 0) - counts[key];
+    if (links[key] <= 0) delete links[key];
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * goban-render: render Sensei's Library diagrams to SVG outside of Obsidian.
+ *
+ *   goban-render [options] [input.txt] > out.svg
+ *
+ * Reads the diagram from the file (or from the standard input) and writes
+ * the SVG image the plugin shows in Obsidian. The input may start with the
+ * options of a goban block ("width: 300", "theme: dark", "rotate: 90", ...);
+ * options given on the command line take precedence.
+ *
+ *   --width N              width in pixels (default: 400)
+ *   --theme light|dark|print  color scheme (default: light)
+ *   --stones flat|shaded|slate-shell  stone style (default: flat)
+ *   --shadows              draw shadows under the stones
+ *   --board plain|wood     board texture (default: plain)
+ *   --coords, --no-coords  show or hide the coordinates
+ *   --no-caption           do not draw the title below the board
+ *
+ * Problems found in the diagram are printed on the standard error. The exit
+ * status is 1 if the diagram could not be rendered, 2 for invalid options.
+ **/
+
+/// <reference types="node" />
+import { readFileSync } from "fs";
+import process from "process";
+import { parseDiagram } from "./diagram";
+import { BlockOptions, splitBlockOptions } from "./options";
+import { GoDiagram } from "./sltxt2svg";
+import { BOARD_TEXTURES, BoardTexture, STONE_STYLES, StoneStyle } from "./textures";
+import { transformDiagram } from "./transform";
+
+const USAGE =
+  "Usage: goban-render [--width N] [--theme light|dark|print] [--stones STYLE] [--shadows] [--board plain|wood]" +
+  " [--coords | --no-coords] [--no-caption] [input.txt]";
+
+function fail(message: string): number {
+  process.stderr.write(`goban-render: ${message}\n${USAGE}\n`);
+  return 2;
+}
+
+function main(args: string[]): number {
+  const overrides: BlockOptions = {};
+  let inputPath = "-";
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--width": {
+        const width = parseInt(args[++i]);
+        if (!(width > 0)) return fail(`invalid width "${args[i] ?? ""}"`);
+        overrides.width = width;
+        break;
+      }
+      case "--theme": {
+        const theme = args[++i];
+        if (theme !== "light" && theme !== "dark" && theme !== "print") return fail(`invalid theme "${theme ?? ""}"`);
+        overrides.theme = theme;
+        break;
+      }
+      case "--stones": {
+        const style = args[++i];
+        if (!Object.prototype.hasOwnProperty.call(STONE_STYLES, style)) return fail(`invalid stone style "${style ?? ""}"`);
+        overrides.stoneStyle = style as StoneStyle;
+        break;
+      }
+      case "--shadows":
+        overrides.shadows = true;
+        break;
+      case "--board": {
+        const texture = args[++i];
+        if (!Object.prototype.hasOwnProperty.call(BOARD_TEXTURES, texture)) return fail(`invalid board texture "${texture ?? ""}"`);
+        overrides.boardTexture = texture as BoardTexture;
+        break;
+      }
+      case "--coords":
+        overrides.coordinates = true;
+        break;
+      case "--no-coords":
+        overrides.coordinates = false;
+        break;
+      case "--no-caption":
+        overrides.caption = false;
+        break;
+      case "-h":
+      case "--help":
+        process.stdout.write(USAGE + "\n");
+        return 0;
+      default:
+        if (arg.startsWith("-") && arg !== "-") return fail(`unknown option "${arg}"`);
+        inputPath = arg;
+    }
+  }
+
+  let source: string;
+  try {
+    // file descriptor 0 is the standard input
+    source = readFileSync(inputPath === "-" ? 0 : inputPath, "utf8");
+  } catch (error) {
+    process.stderr.write(`goban-render: cannot read ${inputPath}: ${(error as Error).message}\n`);
+    return 1;
+  }
+
+  const { options, body, bodyStart } = splitBlockOptions(source);
+  const merged: BlockOptions = { ...options, ...overrides };
+  const goban = new GoDiagram(transformDiagram(parseDiagram(body), merged), {
+    width: merged.width,
+    theme: merged.theme,
+    coordinates: merged.coordinates,
+    coordinateSides: merged.coordinateSides,
+    coordinateStyle: merged.coordinateStyle,
+    caption: merged.caption,
+    stoneStyle: merged.stoneStyle,
+    shadows: merged.shadows,
+    boardTexture: merged.boardTexture,
+  });
+
+  const name = inputPath === "-" ? "<stdin>" : inputPath;
+  for (const diagnostic of goban.diagnostics) {
+    process.stderr.write(
+      `${name}:${diagnostic.line + bodyStart + 1}:${diagnostic.column + 1}: ${diagnostic.severity}: ${diagnostic.message}\n`
+    );
+  }
+  if (goban.hasErrors()) return 1;
+
+  process.stdout.write(goban.createSVGString() + "\n");
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,66 @@
+/**
+ * Labels of the board coordinates.
+ *
+ *   western   columns A-T (without I), rows 1-19 from the bottom
+ *   numeric   columns and rows 1-19 from the lower left corner
+ *   japanese  columns 1-19 from the right, rows in kanji numerals from the top
+ *   sgf       columns and rows a-s from the upper left corner
+ *
+ * Columns are counted from the left of the board (0-based), rows from the
+ * bottom (1-based), as the diagram coordinates of coordinateOrigin().
+ **/
+
+import { COORDINATE_CHARS, DiagramBorders } from "./diagram";
+import { SGF_COORDINATES } from "./sgf";
+
+export type CoordinateStyle = "western" | "numeric" | "japanese" | "sgf";
+export type CoordinateSide = keyof DiagramBorders;
+
+export const COORDINATE_STYLES: Record<CoordinateStyle, string> = {
+  western: "Western (A-T, 1-19)",
+  numeric: "Numeric (1-19, 1-19)",
+  japanese: "Japanese (1-19, 一-十九)",
+  sgf: "SGF (a-s, a-s)",
+};
+export const COORDINATE_SIDES: CoordinateSide[] = ["top", "bottom", "left", "right"];
+export const DEFAULT_COORDINATE_SIDES: CoordinateSide[] = ["left", "top"];
+
+const KANJI_DIGITS = ["", "一", "二", "三", "四", "五", "六", "七", "八", "九"];
+
+/** 1 to 99 in kanji numerals: 十 is 10, 十九 is 19, 二十一 is 21. */
+function kanji(n: number): string {
+  const tens = Math.floor(n / 10);
+  return (tens > 1 ? KANJI_DIGITS[tens] : "") + (tens > 0 ? "十" : "") + KANJI_DIGITS[n % 10];
+}
+
+export function columnLabel(style: CoordinateStyle, column: number, boardSize: number): string {
+  switch (style) {
+    case "numeric":
+      return String(column + 1);
+    case "japanese":
+      return String(boardSize - column);
+    case "sgf":
+      return SGF_COORDINATES[column] ?? "";
+    default:
+      return COORDINATE_CHARS[column] ?? "";
+  }
+}
+
+export function rowLabel(style: CoordinateStyle, row: number, boardSize: number): string {
+  switch (style) {
+    case "japanese":
+      return kanji(boardSize + 1 - row);
+    case "sgf":
+      return SGF_COORDINATES[boardSize - row] ?? "";
+    default:
+      return String(row);
+  }
+}
+
+/** Read a list of sides ("top, right", "all"); null if a name is unknown. */
+export function parseCoordinateSides(value: string): CoordinateSide[] | null {
+  const names = value.toLowerCase().split(/[\s,]+/).filter((name) => name !== "");
+  if (names.length === 1 && names[0] === "all") return COORDINATE_SIDES.slice();
+  if (names.length === 0 || !names.every((name) => (COORDINATE_SIDES as string[]).includes(name))) return null;
+  return names as CoordinateSide[];
+}
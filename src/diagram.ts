@@ -0,0 +1,580 @@
+/**
+ * Parser for Sensei's Library diagrams.
+ *
+ * parseDiagram() reads the text of a diagram (see the syntax at the top of
+ * sltxt2svg.ts) into a BoardModel: the points of the diagram with their
+ * stones, marks, letters and move numbers, the borders, the links, the
+ * arrows and the values of the header. It does not need a DOM, so the model
+ * can be rendered (GoDiagram), exported (diagramToSGF) or analysed anywhere.
+ *
+ * Problems found while parsing are listed in model.diagnostics. When one of
+ * them is an error the model has no points. The numbered moves are then
+ * replayed (see rules.ts) and the moves breaking the rules are reported as
+ * warnings.
+ **/
+
+import { replayDiagram } from "./rules";
+
+export const DEFAULT_BOARD_SIZE = 19;
+export const MIN_BOARD_SIZE = 2;
+export const MAX_BOARD_SIZE = 52;     // limit of the SGF coordinates
+export const COORDINATE_CHARS = "ABCDEFGHJKLMNOPQRSTUVWXYZabcdefghjklmnopqrstuvwxyz123456789";
+
+export type StoneColor = "B" | "W";
+export type MarkType = "circle" | "square" | "triangle" | "cross";
+export type OverlayType = "AR" | "LN" | "RE" | "HL";
+export type DiagnosticSeverity = "error" | "warning";
+
+/** A problem found while parsing the diagram, line and column are 0-based. */
+export interface DiagramDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export type CellPosition = { x: number; y: number }; // column and row inside the diagram, 0-based
+
+export interface BoardPoint {
+  symbol: string;             // symbol of the diagram, "" where a row is too short
+  stone: StoneColor | null;   // plain, marked and numbered stones
+  mark: MarkType | null;      // on a stone or on an empty intersection
+  move: number | null;        // diagram move number, "0" is move 10
+  label: string | null;       // letter on an empty intersection
+  hoshi: boolean;
+  onBoard: boolean;           // false for empty space (_) and unknown symbols, which are not drawn
+  edges: string;              // U(pper), B(ottom), L(eft), R(ight) or a combination, for points on a border
+}
+
+export interface DiagramMove {
+  number: number;             // diagram move number; the real one is startMove + number - 1
+  color: StoneColor;
+  x: number;
+  y: number;
+  line: number;               // position of the move in the source, for diagnostics
+  column: number;
+}
+
+/** A move of the title played on an occupied point ("4 at 1", "7 at a (ko)") or a pass ("5 pass"). */
+export interface MoveNote {
+  number: number;
+  color: StoneColor;
+  at: number | string | null; // number of the move or letter it is played at, null for a pass
+  comment: string;            // the rest of the note, like " (ko)"
+  column: number;             // position of the note in the header line
+}
+
+export interface DiagramBorders {
+  top: boolean;
+  bottom: boolean;
+  left: boolean;
+  right: boolean;
+}
+
+/** A link line: [anchor|target] or [anchor|target "title"]. */
+export interface DiagramLink {
+  anchor: string;             // symbol, move number or board coordinate, as written
+  target: string;             // web address or note
+  title: string;              // tooltip, "" for none
+  cell: CellPosition | null;  // the point of a coordinate anchor, null for the others
+}
+
+export interface DiagramOverlay {
+  type: OverlayType;
+  from: CellPosition;
+  to: CellPosition;
+}
+
+/** Values of the header line: $$(B,W)(c)(size)(m Num)(title) */
+export interface DiagramMetadata {
+  firstColor: StoneColor;     // color of move 1
+  coordinates: boolean;       // the header asks for coordinates ($$c)
+  startMove: number;          // real number of the diagram's move 1
+  title: string;
+  moveNotes: MoveNote[];      // moves given in the title
+}
+
+export interface BoardModel {
+  boardSize: number;
+  metadata: DiagramMetadata;
+  width: number;              // number of points in a row
+  height: number;             // number of rows
+  points: BoardPoint[][];     // points[y][x], y from the top
+  moves: DiagramMove[];       // numbered stones, in numeric order
+  borders: DiagramBorders;
+  links: DiagramLink[];       // in the order of the diagram, the last one first to apply
+  overlays: DiagramOverlay[];
+  diagnostics: DiagramDiagnostic[];
+  origin?: { x: number; y: number };  // board coordinates of the upper left point, for a cropped window
+}
+
+type Report = (severity: DiagnosticSeverity, message: string, line: number, column: number) => void;
+
+// Stone color and mark of the symbols putting a stone on the board
+const STONE_SYMBOLS: Record<string, [StoneColor, MarkType | null]> = {
+  X: ["B", null], B: ["B", "circle"], "#": ["B", "square"], Y: ["B", "triangle"], Z: ["B", "cross"],
+  O: ["W", null], W: ["W", "circle"], "@": ["W", "square"], Q: ["W", "triangle"], P: ["W", "cross"],
+};
+
+// Marks on empty intersections
+const MARK_SYMBOLS: Record<string, MarkType> = { C: "circle", S: "square", T: "triangle", M: "cross" };
+
+const KNOWN_SYMBOL = /^(\d+|[a-z]|[.,_%XOBW#@YQZPCSTM])$/;
+// Anchors of the links: the symbols of stones, marks, move numbers and letters, or a coordinate
+const LINK_ANCHOR = /^(\d+|[a-z]|[XOBW#@YQZPCSTM])$/;
+const COORDINATE_ANCHOR = /^[a-z]\d+$/i;
+
+/**
+ * Parse a diagram in Sensei's Library format.
+ **/
+export function parseDiagram(source: string): BoardModel {
+  const lines = source.split("\n");
+  const diagnostics: DiagramDiagnostic[] = [];
+  const report: Report = (severity, message, line, column) => {
+    diagnostics.push({ severity, message, line, column });
+  };
+  const model: BoardModel = {
+    boardSize: DEFAULT_BOARD_SIZE,
+    metadata: { firstColor: "B", coordinates: false, startMove: 1, title: "", moveNotes: [] },
+    width: 0,
+    height: 0,
+    points: [],
+    moves: [],
+    borders: { top: false, bottom: false, left: false, right: false },
+    links: [],
+    overlays: [],
+    diagnostics,
+  };
+
+  if (!parseHeader(lines[0].trim(), model, report)) {
+    report("error", "The first line must be a diagram header starting with $$", 0, 0);
+    return model;
+  }
+
+  // Read all lines after the first one
+  let body = "";
+  const rowSourceLines: number[] = [];
+  const overlayDefinitions: { type: OverlayType; from: string; to: string; line: number }[] = [];
+  const linkDefinitions: { link: DiagramLink; line: number }[] = [];
+  let match: RegExpMatchArray | null;
+  for (let lineIndex = 1; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    const column = Math.max(0, line.indexOf("$$"));
+    if (line.trim() !== "" && !line.trim().startsWith("$$")) {
+      report("warning", "Line ignored: diagram lines must start with $$", lineIndex, 0);
+      continue;
+    }
+    // Arrow, line and region definitions are resolved once the borders are known
+    if ((match = line.trim().match(/^\$\$\s*\{(AR|LN|RE|HL)\s+(\S+)\s+(\S+)\s*\}\s*$/))) {
+      overlayDefinitions.push({ type: match[1] as OverlayType, from: match[2], to: match[3], line: lineIndex });
+      continue;
+    }
+    if (line.trim().match(/^\$\$\s*\{/)) {
+      report("warning", "Unsupported line definition, expected {AR a1 b2}, {LN a1 b2}, {RE a1 b2} or {HL a1 b2}", lineIndex, column);
+      continue;
+    }
+    // Add NOT EMPTY line prefixed with $$ NOT containing bracketed links, discarding prefix
+    if ((match = line.trim().match(/^\$\$\s*([^[\s].*)/))) {
+      body += match[1] + "\n";
+      rowSourceLines.push(lineIndex);
+    }
+    // Now looking for links and adding them to the map
+    // the anchor ends at the first "|": the link may have its own ([[Note|alias]])
+    if ((match = line.trim().match(/^\$\$\s*\[([^|\]]*)\|(.*)\]/))) {
+      const anchor = match[1].trim();
+      if (LINK_ANCHOR.test(anchor) || COORDINATE_ANCHOR.test(anchor)) {
+        // a title in quotes after the link is shown as its tooltip
+        const titled = match[2].trim().match(/^(.*?)\s+"([^"]*)"$/);
+        const [target, title] = titled ? [titled[1], titled[2]] : [match[2].trim(), ""];
+        linkDefinitions.push({ link: { anchor, target, title, cell: null }, line: lineIndex });
+      } else {
+        report("warning", `Unsupported link anchor "${anchor}"`, lineIndex, column);
+      }
+    } else if (line.match(/^\s*\$\$\s*\[/)) {
+      report("warning", "Invalid link, expected [symbol|link]", lineIndex, column);
+    }
+  }
+
+  const rows = splitRows(body);
+  const area = findBorders(rows);
+  if (area === null) {
+    report("error", "The diagram is too small: it needs at least one row and one column of points", rowSourceLines[0] ?? 0, 0);
+    return model;
+  }
+  const { startrow, endrow, startcol, endcol } = area;
+  model.borders = area.borders;
+  model.width = 1 + endcol - startcol;
+  model.height = 1 + endrow - startrow;
+
+  // Column in the source line of the point at index cellIndex of a row
+  const sourceColumn = (row: number, cellIndex: number): number => {
+    const line = lines[rowSourceLines[row]] ?? "";
+    const cells = Array.isArray(rows[row]) ? /\S+/g : /\S/g;
+    cells.lastIndex = line.indexOf("$$") + 2;
+    let cell: RegExpExecArray | null;
+    for (let i = 0; (cell = cells.exec(line)) !== null; i++) {
+      if (i === cellIndex) return cell.index;
+    }
+    return line.length;
+  };
+
+  for (let ypos = startrow; ypos <= endrow; ypos++) {
+    const points: BoardPoint[] = [];
+    for (let xpos = startcol; xpos <= endcol; xpos++) {
+      const point = createPoint(rows[ypos][xpos] ?? "", edgesOf(rows, xpos, ypos), model.metadata.firstColor);
+      if (point.move !== null && point.stone !== null) {
+        model.moves.push({
+          number: point.move,
+          color: point.stone,
+          x: xpos - startcol,
+          y: ypos - startrow,
+          line: rowSourceLines[ypos],
+          column: sourceColumn(ypos, xpos),
+        });
+      }
+      points.push(point);
+    }
+    model.points.push(points);
+  }
+  model.moves.sort((a, b) => a.number - b.number);
+
+  // Convert the {AR a1 b2} style definitions to diagram cells
+  const origin = coordinateOrigin(model);
+  const toCell = (coordinate: string): CellPosition | null => {
+    const cell = coordinate.match(/^([a-z])(\d+)$/i);
+    if (!cell) return null;
+    const x = COORDINATE_CHARS.indexOf(cell[1].toUpperCase()) - origin.x;
+    const y = origin.y - parseInt(cell[2]);
+    return x >= 0 && x < model.width && y >= 0 && y < model.height ? { x, y } : null;
+  };
+  for (const definition of overlayDefinitions) {
+    const from = toCell(definition.from);
+    const to = toCell(definition.to);
+    if (from && to) {
+      model.overlays.push({ type: definition.type, from, to });
+    } else {
+      const coordinate = from ? definition.to : definition.from;
+      const column = Math.max(0, lines[definition.line].indexOf(coordinate));
+      report("warning", `Coordinate "${coordinate}" is outside of the diagram`, definition.line, column);
+    }
+  }
+  const linkColumn = (line: number) => Math.max(0, lines[line].indexOf("["));
+  const links = linkDefinitions.filter(({ link, line }) => {
+    if (!COORDINATE_ANCHOR.test(link.anchor)) return true;
+    link.cell = toCell(link.anchor);
+    if (!link.cell) report("warning", `Coordinate "${link.anchor}" is outside of the diagram`, line, linkColumn(line));
+    return link.cell !== null;
+  });
+  model.links = links.map(({ link }) => link);
+
+  // Rows of different length, unknown symbols and links to symbols that are not in the diagram
+  const expected = rows[startrow].length;
+  for (let ypos = startrow; ypos <= endrow; ypos++) {
+    const row = rows[ypos];
+    if (row.length !== expected) {
+      report(
+        "warning",
+        `Row has ${row.length} points instead of ${expected}`,
+        rowSourceLines[ypos],
+        sourceColumn(ypos, Math.min(row.length, expected))
+      );
+    }
+    // each row to its own end, so that the symbols of a longer row are checked too
+    for (let xpos = startcol; xpos < row.length; xpos++) {
+      const symbol = row[xpos];
+      if (!KNOWN_SYMBOL.test(symbol)) {
+        report("warning", `Unknown symbol "${symbol}" skipped`, rowSourceLines[ypos], sourceColumn(ypos, xpos));
+      }
+    }
+  }
+  for (const { link, line } of links) {
+    if (!link.cell && !model.points.some((row) => row.some((point) => anchorMatches(link.anchor, point)))) {
+      report("warning", `Link anchor "${link.anchor}" does not appear in the diagram`, line, linkColumn(line));
+    }
+  }
+
+  // Moves played on occupied points, suicides and ko retaken too early
+  diagnostics.push(...replayDiagram(model).diagnostics);
+  return model;
+}
+
+/**
+ * The link of a point: the last link to its coordinate, otherwise the last
+ * one to its symbol or move number. null if the point has none.
+ **/
+export function linkAt(model: BoardModel, cell: CellPosition): DiagramLink | null {
+  const point = model.points[cell.y]?.[cell.x];
+  if (!point) return null;
+  let found: DiagramLink | null = null;
+  for (const link of model.links) {
+    if (link.cell ? link.cell.x === cell.x && link.cell.y === cell.y : !found?.cell && anchorMatches(link.anchor, point)) {
+      found = link;
+    }
+  }
+  return found;
+}
+
+/** True if the diagram could not be parsed; see diagnostics for the reasons. */
+export function hasErrors(model: BoardModel): boolean {
+  return model.diagnostics.some((d) => d.severity === "error");
+}
+
+/** Color of a diagram move: odd moves are played by the first color. */
+export function moveColor(number: number, firstColor: StoneColor): StoneColor {
+  return number % 2 === 1 ? firstColor : firstColor === "B" ? "W" : "B";
+}
+
+/** Split a title into its text and its move notes ("4 at 1", "7 at a (ko)", "9 pass").
+ *  Parts are separated by commas or semicolons. column is the position of
+ *  the title in its line.
+ **/
+export function splitTitle(
+  title: string,
+  firstColor: StoneColor,
+  column = 0
+): { text: string[]; moveNotes: MoveNote[] } {
+  const text: string[] = [];
+  const moveNotes: MoveNote[] = [];
+  const separator = /\s*[,;]\s*/g;
+  let start = 0;
+  for (;;) {
+    const next = separator.exec(title);
+    const end = next ? next.index : title.length;
+    const part = title.slice(start, end);
+    const match = part.match(/^(\d+)\s+(?:at\s+(\d+|[a-z])|(pass))\b(.*)$/i);
+    if (match) {
+      const number = parseInt(match[1]);
+      moveNotes.push({
+        number,
+        color: moveColor(number, firstColor),
+        at: match[2] === undefined ? null : /^\d+$/.test(match[2]) ? parseInt(match[2]) : match[2],
+        comment: match[4],
+        column: column + start,
+      });
+    } else if (part) {
+      text.push(part);
+    }
+    if (!next) break;
+    start = separator.lastIndex;
+  }
+  return { text, moveNotes };
+}
+
+/**
+ * True if the point at column x, row y (0-based, from the upper left) of a
+ * board is a star point (hoshi): on the 3rd line (the 4th from 13x13) and
+ * the center line of odd boards from 7x7 up. Tengen from 9x9 up, the side
+ * star points from 15x15 up.
+ **/
+export function isStarPoint(x: number, y: number, size: number): boolean {
+  if (size < 7 || size % 2 === 0) return false;
+  const edge = size >= 13 ? 3 : 2;
+  const center = (size - 1) / 2;
+  const lines = [edge, center, size - 1 - edge];
+  if (!lines.includes(x) || !lines.includes(y)) return false;
+  if (x === center && y === center) return size >= 9;
+  return size >= 15 || (x !== center && y !== center);
+}
+
+/** Board coordinates of the diagram's upper left intersection:
+ *  x is the index of the column letter, y the row number.
+ *  Diagrams are aligned to the board edges given by their borders,
+ *  unless they are a window of a larger diagram (model.origin).
+ **/
+export function coordinateOrigin(model: BoardModel): { x: number; y: number } {
+  if (model.origin) return model.origin;
+  const { borders } = model;
+  return {
+    x: !borders.left && borders.right ? Math.max(0, model.boardSize - model.width) : 0,
+    y: !borders.bottom && borders.top ? model.boardSize : model.height,
+  };
+}
+
+/**
+ * Write a model back in Sensei's Library format: the header, the rows of
+ * symbols between their borders, the links and the arrows. Points are
+ * separated by spaces, which allows move numbers of two or more digits.
+ **/
+export function formatDiagram(model: BoardModel): string {
+  const { metadata, borders } = model;
+  let flags = metadata.firstColor === "W" ? "W" : "";
+  if (metadata.coordinates) flags += "c";
+  if (model.boardSize !== DEFAULT_BOARD_SIZE) flags += model.boardSize;
+  if (metadata.startMove !== 1) flags += "m" + metadata.startMove;
+  const lines = ["$$" + flags + (metadata.title ? " " + metadata.title : "")];
+
+  // the second character of a border row must be a border character
+  const border =
+    (borders.left ? "+-" : "") + "-".repeat(Math.max(2 * model.width - 1, 2)) + (borders.right ? "-+" : "");
+  if (borders.top) lines.push("$$ " + border);
+  for (const row of model.points) {
+    const symbols = row.map((point) => point.symbol || ".").join(" ");
+    lines.push("$$ " + (borders.left ? "| " : "") + symbols + (borders.right ? " |" : ""));
+  }
+  if (borders.bottom) lines.push("$$ " + border);
+
+  const origin = coordinateOrigin(model);
+  const coordinate = (cell: CellPosition) => COORDINATE_CHARS[origin.x + cell.x] + (origin.y - cell.y);
+  for (const link of model.links) {
+    const anchor = link.cell ? coordinate(link.cell) : link.anchor;
+    lines.push(`$$ [${anchor}|${link.target}${link.title ? ` "${link.title}"` : ""}]`);
+  }
+  for (const overlay of model.overlays) {
+    lines.push(`$$ {${overlay.type} ${coordinate(overlay.from)} ${coordinate(overlay.to)}}`);
+  }
+  return lines.join("\n");
+}
+
+/** Parse the header line: $$(B,W)(c)(size)(m Num)(title)
+ *  The flags are the first word after $$ and may come in any order;
+ *  anything after the first whitespace is the title.
+ *  Unsupported or repeated flags are reported as diagnostics.
+ *  Returns false if the line is not a diagram header.
+ **/
+function parseHeader(line: string, model: BoardModel, report: Report): boolean {
+  if (!line.startsWith("$$")) return false;
+  const metadata = model.metadata;
+
+  const header = line.slice(2);
+  const flags = header.match(/^\S*/)?.[0] ?? "";
+  metadata.title = header.slice(flags.length).trim();
+  const titleColumn = metadata.title ? line.indexOf(metadata.title, 2 + flags.length) : 0;
+
+  const seen = new Set<string>();
+  const token = /([BW])|(c)|m(\d+)|(\d+)/y;
+  let column = 2;
+  let rest = flags;
+  while (rest.length > 0) {
+    token.lastIndex = 0;
+    const match = token.exec(rest);
+    if (!match) {
+      report("warning", `Unsupported header flags "${rest}" ignored`, 0, column);
+      break;
+    }
+    const kind = match[1] ? "first color" : match[2] ? "coordinates" : match[3] ? "start move" : "board size";
+    if (seen.has(kind)) {
+      report("warning", `The header sets the ${kind} more than once`, 0, column);
+    }
+    seen.add(kind);
+
+    if (match[1]) {
+      metadata.firstColor = match[1] as StoneColor;
+    } else if (match[2]) {
+      metadata.coordinates = true;
+    } else if (match[3]) {
+      const startMove = parseInt(match[3]);
+      if (startMove >= 1) metadata.startMove = startMove;
+      else report("warning", "The start move must be 1 or more", 0, column);
+    } else {
+      const size = parseInt(match[4]);
+      if (size >= MIN_BOARD_SIZE && size <= MAX_BOARD_SIZE) model.boardSize = size;
+      else report("warning", `Board size must be between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}`, 0, column);
+    }
+    column += match[0].length;
+    rest = rest.slice(match[0].length);
+  }
+  // the first color is known once all the flags are read
+  metadata.moveNotes = splitTitle(metadata.title, metadata.firstColor, titleColumn).moveNotes;
+  return true;
+}
+
+/** Split the diagram body into rows. Border characters become "%".
+ *  Compact rows are kept as strings, rows with spaces between the
+ *  points (needed for numbers of two or more digits) as arrays.
+ **/
+function splitRows(body: string): (string | string[])[] {
+  let diag = body.replace(/[-|+]/g, "%");
+  diag = diag.replace(/[\t\r$]/g, "");
+  diag = diag.replace(/\n+/g, " \n");
+
+  const rows: (string | string[])[] = [];
+  for (const row of diag.split("\n")) {
+    // Check if the row appears to be in non-compact form (spaces),
+    // includes a number (/\d/.test), and is not a line/arrow definition line ({)
+    if (row.includes(" ") && /\d/.test(row) && !row.includes("{")) {
+      rows.push(row.split(" ").filter((cell) => cell !== ""));
+    } else {
+      rows.push(row.replace(/ /g, ""));
+    }
+  }
+  // drop the empty rows left over by the trailing newline
+  while (rows.length > 0 && rows[rows.length - 1].length === 0) {
+    rows.pop();
+  }
+  return rows;
+}
+
+/** Find the borders and the rows and columns holding points.
+ *  Returns null if there is not at least one point.
+ **/
+function findBorders(
+  rows: (string | string[])[]
+): { startrow: number; endrow: number; startcol: number; endcol: number; borders: DiagramBorders } | null {
+  if (rows.length === 0) return null;
+  const borders: DiagramBorders = { top: false, bottom: false, left: false, right: false };
+  let startrow = 0;
+  let endrow = rows.length - 1;
+  let startcol = 0;
+
+  if (rows[0][1] === "%") {
+    startrow++;
+    borders.top = true;
+  }
+  if (rows[endrow][1] === "%") {
+    endrow--;
+    borders.bottom = true;
+  }
+  if (startrow > endrow) return null; // only borders, no points
+
+  if (rows[startrow][0] === "%") {
+    startcol++;
+    borders.left = true;
+  }
+  let endcol = rows[startrow].length - 1;
+  if (rows[startrow][endcol] === "%") {
+    endcol--;
+    borders.right = true;
+  }
+  if (startcol > endcol) return null;
+  return { startrow, endrow, startcol, endcol, borders };
+}
+
+/** Edges of the board next to a point: U(pper), B(ottom), L(eft), R(ight). */
+function edgesOf(rows: (string | string[])[], x: number, y: number): string {
+  let edges = "";
+  if (rows[y - 1]?.[x] === "%") edges += "U";
+  if (rows[y + 1]?.[x] === "%") edges += "B";
+  if (rows[y][x - 1] === "%") edges += "L";
+  if (rows[y][x + 1] === "%") edges += "R";
+  return edges;
+}
+
+function createPoint(symbol: string, edges: string, firstColor: StoneColor): BoardPoint {
+  const point: BoardPoint = { symbol, stone: null, mark: null, move: null, label: null, hoshi: false, onBoard: true, edges };
+  if (hasOwn(STONE_SYMBOLS, symbol)) {
+    [point.stone, point.mark] = STONE_SYMBOLS[symbol];
+  } else if (hasOwn(MARK_SYMBOLS, symbol)) {
+    point.mark = MARK_SYMBOLS[symbol];
+  } else if (/^\d+$/.test(symbol)) {
+    // 0 is move 10
+    point.move = symbol === "0" ? 10 : parseInt(symbol);
+    point.stone = moveColor(point.move, firstColor);
+  } else if (/^[a-z]$/.test(symbol)) {
+    point.label = symbol;
+  } else if (symbol === ",") {
+    point.hoshi = true;
+  } else if (symbol !== ".") {
+    point.onBoard = false;
+  }
+  return point;
+}
+
+/** A number matches the move of that number however it is written: 10 matches the 0 of a compact row. */
+function anchorMatches(anchor: string, point: BoardPoint): boolean {
+  if (anchor === point.symbol) return true;
+  return /^\d+$/.test(anchor) && point.move !== null && (anchor === "0" ? 10 : parseInt(anchor)) === point.move;
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
@@ -0,0 +1,194 @@
+/**
+ * Visual editor for `goban` blocks.
+ *
+ * The modal draws the diagram with GoDiagram and changes the point clicked
+ * with the selected tool: black and white stones, numbered moves, marks,
+ * letters or the eraser. Borders and the coordinates flag of the header are
+ * toggled from the toolbar. Saving writes the diagram back in Sensei's
+ * Library format (formatDiagram) through the onSave callback.
+ **/
+
+import { App, Modal, Notice } from "obsidian";
+import { BoardModel, CellPosition, DiagramBorders, formatDiagram, MarkType, parseDiagram, StoneColor } from "./diagram";
+import { GoDiagram, GoDiagramOptions } from "./sltxt2svg";
+
+type EditorTool = "black" | "white" | "move" | MarkType | "letter" | "erase";
+
+const TOOLS: { tool: EditorTool; name: string }[] = [
+  { tool: "black", name: "Black" },
+  { tool: "white", name: "White" },
+  { tool: "move", name: "Move" },
+  { tool: "circle", name: "Circle" },
+  { tool: "square", name: "Square" },
+  { tool: "triangle", name: "Triangle" },
+  { tool: "cross", name: "Cross" },
+  { tool: "letter", name: "Letter" },
+  { tool: "erase", name: "Erase" },
+];
+
+const BORDERS: { side: keyof DiagramBorders; name: string }[] = [
+  { side: "top", name: "Top" },
+  { side: "bottom", name: "Bottom" },
+  { side: "left", name: "Left" },
+  { side: "right", name: "Right" },
+];
+
+// Symbol of each mark on a black stone, a white stone and an empty point
+const MARK_SYMBOLS: Record<MarkType, [string, string, string]> = {
+  circle: ["B", "W", "C"],
+  square: ["#", "@", "S"],
+  triangle: ["Y", "Q", "T"],
+  cross: ["Z", "P", "M"],
+};
+
+const STONE_SYMBOLS: Record<StoneColor, string> = { B: "X", W: "O" };
+
+export class DiagramEditorModal extends Modal {
+  private model: BoardModel;
+  private tool: EditorTool = "black";
+  private hoshi: Set<string>;       // star points of the diagram, kept when a point is erased
+  private goban!: GoDiagram;
+  private boardEl!: HTMLElement;
+  private toolbarEl!: HTMLElement;
+
+  constructor(
+    app: App,
+    source: string,
+    private options: GoDiagramOptions,
+    private onSave: (diagram: string) => Promise<void>
+  ) {
+    super(app);
+    this.model = parseDiagram(source);
+    this.hoshi = new Set();
+    this.model.points.forEach((row, y) => row.forEach((point, x) => point.hoshi && this.hoshi.add(x + "," + y)));
+  }
+
+  onOpen() {
+    this.titleEl.setText("Edit diagram");
+    this.modalEl.addClass("goban-editor");
+
+    this.toolbarEl = this.contentEl.createDiv({ cls: "goban-editor-toolbar" });
+    this.boardEl = this.contentEl.createDiv({ cls: "goban-editor-board" });
+    const footer = this.contentEl.createDiv({ cls: "modal-button-container" });
+    footer.createEl("button", { cls: "mod-cta", text: "Save" }).addEventListener("click", () => this.save());
+    footer.createEl("button", { text: "Cancel" }).addEventListener("click", () => this.close());
+
+    this.boardEl.addEventListener("click", (evt) => {
+      const cell = this.cellAt(evt);
+      if (cell) this.apply(cell);
+    });
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    this.toolbarEl.empty();
+    const tools = this.toolbarEl.createDiv({ cls: "goban-editor-tools" });
+    for (const { tool, name } of TOOLS) {
+      this.toggleButton(tools, name, this.tool === tool, () => (this.tool = tool));
+    }
+    const toggles = this.toolbarEl.createDiv({ cls: "goban-editor-tools" });
+    for (const { side, name } of BORDERS) {
+      this.toggleButton(toggles, name, this.model.borders[side], () => this.update(() => {
+        this.model.borders[side] = !this.model.borders[side];
+      }));
+    }
+    this.toggleButton(toggles, "Coordinates", this.model.metadata.coordinates, () => this.update(() => {
+      this.model.metadata.coordinates = !this.model.metadata.coordinates;
+    }));
+
+    // the coordinates follow the header flag, so that the toggle shows its effect
+    this.goban = new GoDiagram(this.model, { ...this.options, coordinates: undefined });
+    this.boardEl.empty();
+    this.boardEl.appendChild(this.goban.createSVG(activeDocument).element);
+  }
+
+  private toggleButton(parent: HTMLElement, name: string, active: boolean, onClick: () => void) {
+    const button = parent.createEl("button", { text: name, cls: active ? "is-active" : "" });
+    button.addEventListener("click", () => {
+      onClick();
+      this.render();
+    });
+  }
+
+  /** Change the model, then read it again so that moves, edges and hoshi follow the new symbols. */
+  private update(change: () => void) {
+    change();
+    this.model = parseDiagram(formatDiagram(this.model));
+  }
+
+  /** The cell under the mouse, from the viewBox of the drawn board. */
+  private cellAt(evt: MouseEvent): CellPosition | null {
+    const svg = this.boardEl.querySelector("svg");
+    if (!svg) return null;
+    const rect = svg.getBoundingClientRect();
+    const viewBox = svg.viewBox.baseVal;
+    return this.goban.cellAt(
+      ((evt.clientX - rect.left) * viewBox.width) / rect.width,
+      ((evt.clientY - rect.top) * viewBox.height) / rect.height
+    );
+  }
+
+  private apply({ x, y }: CellPosition) {
+    const point = this.model.points[y][x];
+    const empty = this.hoshi.has(x + "," + y) ? "," : ".";
+    let symbol = point.symbol;
+
+    switch (this.tool) {
+      case "black":
+      case "white": {
+        const stone = STONE_SYMBOLS[this.tool === "black" ? "B" : "W"];
+        symbol = point.symbol === stone ? empty : stone;
+        break;
+      }
+      case "move": {
+        // a new move after the last one; clicking the last move removes it
+        const last = this.model.moves.length > 0 ? this.model.moves[this.model.moves.length - 1].number : 0;
+        if (point.move !== null) {
+          if (point.move === last) symbol = empty;
+        } else if (point.stone === null) {
+          symbol = String(last + 1);
+        }
+        break;
+      }
+      case "circle":
+      case "square":
+      case "triangle":
+      case "cross": {
+        if (point.move !== null) break; // numbered stones cannot be marked
+        const index = point.stone === "B" ? 0 : point.stone === "W" ? 1 : 2;
+        symbol = point.mark === this.tool
+          ? (point.stone ? STONE_SYMBOLS[point.stone] : empty)
+          : MARK_SYMBOLS[this.tool][index];
+        break;
+      }
+      case "letter": {
+        if (point.label !== null) {
+          symbol = empty;
+        } else if (point.stone === null) {
+          const used = new Set<string | null>();
+          this.model.points.forEach((row) => row.forEach((p) => used.add(p.label)));
+          const letter = "abcdefghijklmnopqrstuvwxyz".split("").find((l) => !used.has(l));
+          if (letter) symbol = letter;
+        }
+        break;
+      }
+      case "erase":
+        symbol = empty;
+        break;
+    }
+
+    if (symbol === point.symbol) return;
+    this.update(() => (point.symbol = symbol));
+    this.render();
+  }
+
+  private save() {
+    this.onSave(formatDiagram(this.model))
+      .then(() => this.close())
+      .catch((error: Error) => new Notice("Cannot save the diagram: " + error.message));
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Export of rendered diagrams.
+ *
+ * Right-clicking a diagram opens a menu to copy it as SVG markup, as a PNG
+ * image or as SGF, and to save it as an .svg or .png file in the export
+ * folder of the settings. Exported images use the colors the diagram is
+ * shown with (theme, CSS snippets and color settings), written as plain
+ * SVG attributes so that they look the same outside of Obsidian.
+ **/
+
+import { Menu, normalizePath, Notice } from "obsidian";
+import { BoardModel } from "./diagram";
+import type ObsidianGoban from "./main";
+import { PALETTE_VARIABLES } from "./settings";
+import { ColorPalette, GoDiagram, GoDiagramOptions } from "./sltxt2svg";
+
+type ImageFormat = "svg" | "png";
+
+export class DiagramExporter {
+  constructor(
+    private plugin: ObsidianGoban,
+    private element: SVGSVGElement,   // the rendered diagram
+    private model: BoardModel,        // the diagram as shown, transformations included
+    private options: GoDiagramOptions
+  ) {}
+
+  /** Open the export menu when the diagram is right-clicked. */
+  attach(): void {
+    this.element.addEventListener("contextmenu", (evt) => {
+      evt.preventDefault();
+      this.menu().showAtMouseEvent(evt);
+    });
+  }
+
+  private menu(): Menu {
+    const menu = new Menu();
+    menu.addItem((item) => item.setTitle("Copy as SVG").setIcon("copy").onClick(() => this.run(() => this.copySVG())));
+    menu.addItem((item) => item.setTitle("Copy as PNG").setIcon("image").onClick(() => this.run(() => this.copyPNG())));
+    menu.addItem((item) => item.setTitle("Copy as SGF").setIcon("file-text").onClick(() => this.run(() => this.copySGF())));
+    menu.addSeparator();
+    menu.addItem((item) => item.setTitle("Save as SVG").setIcon("download").onClick(() => this.run(() => this.save("svg"))));
+    menu.addItem((item) => item.setTitle("Save as PNG").setIcon("download").onClick(() => this.run(() => this.save("png"))));
+    return menu;
+  }
+
+  private run(action: () => Promise<void>): void {
+    action().catch((error: Error) => new Notice("Cannot export the diagram: " + error.message));
+  }
+
+  private async copySVG(): Promise<void> {
+    await navigator.clipboard.writeText(this.svg());
+    new Notice("Diagram copied as SVG");
+  }
+
+  private async copyPNG(): Promise<void> {
+    const png = await this.png();
+    await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+    new Notice("Diagram copied as PNG");
+  }
+
+  private async copySGF(): Promise<void> {
+    await navigator.clipboard.writeText(new GoDiagram(this.model, this.options).createSGF());
+    new Notice("Diagram copied as SGF");
+  }
+
+  private async save(format: ImageFormat): Promise<void> {
+    const { vault } = this.plugin.app;
+    const path = await this.availablePath(format);
+    if (format === "svg") await vault.create(path, this.svg());
+    else await vault.createBinary(path, await (await this.png()).arrayBuffer());
+    new Notice("Diagram saved to " + path);
+  }
+
+  /** The diagram as a standalone SVG document, with the colors it is shown with. */
+  private svg(): string {
+    return new GoDiagram(this.model, { ...this.options, colors: this.renderedColors() }).createSVGString();
+  }
+
+  /** Rasterize the diagram through a canvas, pngScale times its size. */
+  private png(): Promise<Blob> {
+    const { width, height } = this.element.viewBox.baseVal;
+    const scale = this.plugin.settings.pngScale;
+    const url = URL.createObjectURL(new Blob([this.svg()], { type: "image/svg+xml" }));
+    const image = createEl("img");
+
+    return new Promise<Blob>((resolve, reject) => {
+      image.onload = () => {
+        const canvas = createEl("canvas");
+        canvas.width = Math.ceil(width * scale);
+        canvas.height = Math.ceil(height * scale);
+        canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("the PNG image could not be created"))), "image/png");
+      };
+      image.onerror = () => reject(new Error("the SVG image could not be loaded"));
+      image.src = url;
+    }).finally(() => URL.revokeObjectURL(url));
+  }
+
+  /** Colors of the rendered diagram, from the --goban-* CSS variables. */
+  private renderedColors(): Partial<ColorPalette> {
+    const style = getComputedStyle(this.element);
+    const colors: Partial<ColorPalette> = {};
+    for (const key of Object.keys(PALETTE_VARIABLES) as (keyof ColorPalette)[]) {
+      const value = style.getPropertyValue(PALETTE_VARIABLES[key]).trim();
+      if (value) colors[key] = value;
+    }
+    return colors;
+  }
+
+  /** A new file in the export folder, named after the diagram title. */
+  private async availablePath(format: ImageFormat): Promise<string> {
+    const vault = this.plugin.app.vault;
+    const folder = normalizePath(this.plugin.settings.exportFolder || "/");
+    if (folder !== "/" && !vault.getAbstractFileByPath(folder)) {
+      await vault.createFolder(folder);
+    }
+
+    const title = this.model.metadata.title;
+    const name = title.replace(/[\\/:*?"<>|#^[\]]/g, "").trim() || "Goban";
+    const prefix = folder === "/" ? "" : folder + "/";
+    let path = `${prefix}${name}.${format}`;
+    for (let i = 1; vault.getAbstractFileByPath(path); i++) {
+      path = `${prefix}${name} ${i}.${format}`;
+    }
+    return path;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Links of the diagrams.
+ *
+ * The target of a link line ([a|target]) is a web address, or a note of the
+ * vault: "[[Note]]", "[[Note#Heading|alias]]" or a bare note name.
+ * internalLinkpath() tells them apart. GoDiagram marks the links to notes
+ * with their link text (data-href), so that the plugin opens them through
+ * the workspace, and diagramLinks() lists them for the metadata cache
+ * (backlinks.ts).
+ **/
+
+import { parseDiagram } from "./diagram";
+import { findGobanBlocks } from "./notes";
+import { splitBlockOptions } from "./options";
+
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const WIKILINK = /^\[\[([^\]|]*)(?:\|([^\]]*))?\]\]$/;
+
+/** The link text of a link to a note ("Note#Heading"), or null for a web address. */
+export function internalLinkpath(link: string): string | null {
+  const wikilink = link.match(WIKILINK);
+  if (wikilink) return wikilink[1].trim();
+  if (URL_SCHEME.test(link) || link.startsWith("//")) return null;
+  return link;
+}
+
+/** The link texts of the links to notes in the goban blocks of a note. */
+export function diagramLinks(content: string): string[] {
+  const links: string[] = [];
+  for (const { source } of findGobanBlocks(content)) {
+    const model = parseDiagram(splitBlockOptions(source).body);
+    for (const link of model.links) {
+      const linkpath = internalLinkpath(link.target);
+      if (linkpath) links.push(linkpath);
+    }
+  }
+  return links;
+}
@@ -1,40 +1,417 @@
-import { MarkdownPostProcessorContext, Plugin } from "obsidian";
-import { GoDiagram } from "./sltxt2svg";
+import {
+  Editor,
+  getLinkpath,
+  HoverParent,
+  HoverPopover,
+  Keymap,
+  MarkdownPostProcessorContext,
+  MarkdownRenderChild,
+  Notice,
+  Plugin,
+  setIcon,
+  TFile,
+} from "obsidian";
+import { DiagramLinkIndex } from "./backlinks";
+import { DiagramDiagnostic, formatDiagram, hasErrors, parseDiagram } from "./diagram";
+import { DiagramEditorModal } from "./editor";
+import { DiagramExporter } from "./export";
+import { BlockOptions, parseOptions, splitBlockOptions } from "./options";
+import { DiagramPlayback } from "./playback";
+import { diagramSolution, DiagramProblem, SolutionNode, transformSolution } from "./problem";
+import { colorProperties, DEFAULT_SETTINGS, diagramOptions, GobanSettings, GobanSettingTab } from "./settings";
+import { ProblemIndex, REVIEW_QUEUE_VIEW, ReviewModal, ReviewQueueView } from "./review";
+import { isDue, renameReviews, ReviewRecord, scheduleReview } from "./schedule";
+import { parseSGF, sgfSolution, sgfToDiagram } from "./sgf";
+import { GoDiagram, GoDiagramOptions } from "./sltxt2svg";
+import { diagramTemplate, InsertDiagramModal, TEMPLATE_SIZES } from "./templates";
+import { DiagramTransform, transformDiagram } from "./transform";
+
+/**
+ * A rendered diagram, kept so that it can be drawn again when the settings change.
+ * Its links to notes open in the workspace, and show a preview on hover.
+ **/
+class GobanRenderChild extends MarkdownRenderChild implements HoverParent {
+  hoverPopover: HoverPopover | null = null;
+
+  constructor(
+    containerEl: HTMLElement,
+    private plugin: ObsidianGoban,
+    private sourcePath: string,
+    private draw: (el: HTMLElement) => void
+  ) {
+    super(containerEl);
+  }
+
+  onload() {
+    this.plugin.renderedDiagrams.add(this);
+    this.render();
+
+    const openLink = (evt: MouseEvent) => {
+      const link = this.internalLink(evt);
+      if (!link || (evt.type === "auxclick" && evt.button !== 1)) return;
+      evt.preventDefault();
+      const linktext = link.getAttribute("data-href") ?? "";
+      void this.plugin.app.workspace.openLinkText(linktext, this.sourcePath, Keymap.isModEvent(evt));
+    };
+    this.registerDomEvent(this.containerEl, "click", openLink);
+    this.registerDomEvent(this.containerEl, "auxclick", openLink);
+    this.registerDomEvent(this.containerEl, "mouseover", (evt) => {
+      const link = this.internalLink(evt);
+      if (!link) return;
+      this.plugin.app.workspace.trigger("hover-link", {
+        event: evt,
+        source: "preview",
+        hoverParent: this,
+        targetEl: link,
+        linktext: link.getAttribute("data-href") ?? "",
+        sourcePath: this.sourcePath,
+      });
+    });
+  }
+
+  private internalLink(evt: MouseEvent): HTMLElement | null {
+    return (evt.target as Element).closest<HTMLElement>("a[data-href]");
+  }
+
+  onunload() {
+    this.plugin.renderedDiagrams.delete(this);
+  }
+
+  render() {
+    this.containerEl.empty();
+    this.draw(this.containerEl);
+  }
+}
+
+/** The plugin data: the settings, and the review records of the problems by key. */
+type PluginData = Partial<GobanSettings> & { reviews?: Record<string, ReviewRecord> };
 
 export default class ObsidianGoban extends Plugin {
+  settings!: GobanSettings;
+  reviews: Record<string, ReviewRecord> = {};
+  problems!: ProblemIndex;
+  diagramLinks!: DiagramLinkIndex;
+  renderedDiagrams = new Set<GobanRenderChild>();
+
   async onload() {
+    await this.loadSettings();
+    this.addSettingTab(new GobanSettingTab(this.app, this));
+
     this.registerMarkdownCodeBlockProcessor("goban", this.drawGoban());
+    this.registerMarkdownCodeBlockProcessor("sgf", this.drawSGF());
+    this.registerMarkdownPostProcessor(this.drawSGFEmbeds());
+
+    this.addCommand({
+      id: "insert-diagram",
+      name: "Insert new goban diagram",
+      editorCallback: (editor) => new InsertDiagramModal(this.app, (diagram) => this.insertDiagram(editor, diagram)).open(),
+    });
+    for (const size of TEMPLATE_SIZES) {
+      this.addCommand({
+        id: `insert-board-${size}`,
+        name: `Insert ${size}x${size} board`,
+        editorCallback: (editor) => this.insertDiagram(editor, diagramTemplate({ size, region: "full", firstColor: "B" })),
+      });
+    }
+
+    const transformCommands: { id: string; name: string; transform: DiagramTransform }[] = [
+      { id: "rotate-diagram-clockwise", name: "Rotate diagram clockwise", transform: { rotate: 90 } },
+      { id: "rotate-diagram-counterclockwise", name: "Rotate diagram counterclockwise", transform: { rotate: 270 } },
+      { id: "flip-diagram-horizontally", name: "Flip diagram horizontally", transform: { flip: "horizontal" } },
+      { id: "flip-diagram-vertically", name: "Flip diagram vertically", transform: { flip: "vertical" } },
+      { id: "swap-diagram-colors", name: "Swap diagram colors", transform: { swapColors: true } },
+    ];
+    for (const { id, name, transform } of transformCommands) {
+      this.addCommand({ id, name, editorCallback: (editor) => this.transformBlockAtCursor(editor, transform) });
+    }
+
+    this.problems = new ProblemIndex(this.app);
+    this.problems.register(this);
+    this.registerView(REVIEW_QUEUE_VIEW, (leaf) => new ReviewQueueView(leaf, this));
+    this.addCommand({ id: "review-problems", name: "Review Go problems", callback: () => void this.reviewProblems() });
+    this.addCommand({ id: "open-problem-queue", name: "Open Go problem queue", callback: () => void this.openReviewQueue() });
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (renameReviews(this.reviews, oldPath, file.path)) void this.savePluginData();
+      })
+    );
+
+    this.diagramLinks = new DiagramLinkIndex(this.app);
+    this.diagramLinks.register(this);
   }
 
-  refreshMarkdownCodeBlockProcessor() {
-    this.registerMarkdownCodeBlockProcessor("goban", this.drawGoban());
+  async loadSettings() {
+    const { reviews, ...settings } = ((await this.loadData()) ?? {}) as PluginData;
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+    this.reviews = reviews ?? {};
+  }
+
+  async saveSettings() {
+    await this.savePluginData();
+    this.refreshDiagrams();
+  }
+
+  private async savePluginData() {
+    const data: PluginData = { ...this.settings, reviews: this.reviews };
+    await this.saveData(data);
+  }
+
+  /** Review the problems of the vault that are due. */
+  async reviewProblems() {
+    const now = Date.now();
+    const problems = (await this.problems.problems()).filter((problem) => isDue(this.reviews[problem.key], now));
+    if (problems.length === 0) {
+      new Notice("No Go problems are due");
+      return;
+    }
+    new ReviewModal(this, problems).open();
+  }
+
+  /** Schedule the next review of a problem, and show it in the review queues. */
+  async recordReview(key: string, passed: boolean): Promise<ReviewRecord> {
+    const review = scheduleReview(this.reviews[key], passed, Date.now());
+    this.reviews[key] = review;
+    await this.savePluginData();
+    for (const leaf of this.app.workspace.getLeavesOfType(REVIEW_QUEUE_VIEW)) {
+      if (leaf.view instanceof ReviewQueueView) await leaf.view.refresh();
+    }
+    return review;
+  }
+
+  private async openReviewQueue() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(REVIEW_QUEUE_VIEW)[0];
+    if (!leaf) {
+      const right = workspace.getRightLeaf(false);
+      if (!right) return;
+      await right.setViewState({ type: REVIEW_QUEUE_VIEW, active: true });
+      leaf = right;
+    }
+    workspace.setActiveLeaf(leaf, { focus: true });
+  }
+
+  /** Insert a goban block at the cursor, on its own lines. */
+  private insertDiagram(editor: Editor, diagram: string) {
+    const cursor = editor.getCursor();
+    const before = editor.getLine(cursor.line).slice(0, cursor.ch).trim() ? "\n" : "";
+    editor.replaceSelection(before + "```goban\n" + diagram + "\n```\n");
+  }
+
+  /** Rewrite the diagram of the goban block at the cursor with a transformation applied. */
+  private transformBlockAtCursor(editor: Editor, transform: DiagramTransform) {
+    const fence = /^\s*(`{3,}|~{3,})/;
+    const cursor = editor.getCursor().line;
+    // a cursor on the closing fence is still in the block
+    let start = fence.test(editor.getLine(cursor)) && !/goban/.test(editor.getLine(cursor)) ? cursor - 1 : cursor;
+    while (start >= 0 && !fence.test(editor.getLine(start))) start--;
+    let end = start + 1;
+    while (end < editor.lineCount() && !fence.test(editor.getLine(end))) end++;
+    if (start < 0 || !/^\s*(`{3,}|~{3,})\s*goban\s*$/.test(editor.getLine(start)) || end >= editor.lineCount()) {
+      new Notice("Place the cursor in a goban block");
+      return;
+    }
+
+    const lines: string[] = [];
+    for (let line = start + 1; line < end; line++) lines.push(editor.getLine(line));
+    const { body, bodyStart } = splitBlockOptions(lines.join("\n"));
+    const model = parseDiagram(body);
+    if (hasErrors(model)) {
+      new Notice("The diagram has errors and cannot be transformed");
+      return;
+    }
+    editor.replaceRange(
+      formatDiagram(transformDiagram(model, transform)),
+      { line: start + 1 + bodyStart, ch: 0 },
+      { line: end - 1, ch: editor.getLine(end - 1).length }
+    );
+  }
+
+  /** Draw again all the diagrams in the open notes. */
+  refreshDiagrams() {
+    this.renderedDiagrams.forEach((diagram) => diagram.render());
   }
 
   private drawGoban() {
     return (
       source: string,
       el: HTMLElement,
-      _ctx: MarkdownPostProcessorContext
+      ctx: MarkdownPostProcessorContext
     ) => {
-      const goban = new GoDiagram(source);
-      const svgGoban = goban.createSVG(activeDocument);
-
-      const boxWidth = svgGoban.width ?? 320;
-      const boxHeight = svgGoban.height ?? 320;
-      const block = svgGoban.element;
-      block.setAttributeNS(
-        null,
-        "viewBox",
-        "0 0 " + boxWidth + " " + boxHeight
+      const { options, body, bodyStart } = splitBlockOptions(source);
+      const edit = () =>
+        new DiagramEditorModal(this.app, body, this.blockDiagramOptions(options), (diagram) =>
+          this.replaceBlockBody(el, ctx, bodyStart, diagram)
+        ).open();
+      ctx.addChild(
+        new GobanRenderChild(el, this, ctx.sourcePath, (container) => {
+          if (this.renderDiagram(body, options, container, bodyStart)) this.addEditButton(container, edit);
+        })
       );
-      block.setAttributeNS(null, "width", String(this.roundNumberToTens(boxWidth)));
-      block.setAttributeNS(null, "height", String(this.roundNumberToTens(boxHeight)));
-      block.classList.add("goban-block");
-      el.appendChild(block);
     };
   }
 
-  private roundNumberToTens(num : number) : number {
-    return Math.ceil(num / 10) * 10;
+  private drawSGF() {
+    return (
+      source: string,
+      el: HTMLElement,
+      ctx: MarkdownPostProcessorContext
+    ) => {
+      const { options, body } = splitBlockOptions(source);
+      ctx.addChild(new GobanRenderChild(el, this, ctx.sourcePath, (container) => this.renderSGF(body, options, container)));
+    };
+  }
+
+  /** Replace embedded .sgf files (![[game.sgf|move: 50, numbers: 10]])
+   *  with the rendered diagram.
+   **/
+  private drawSGFEmbeds() {
+    return (el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+      el.querySelectorAll<HTMLElement>(".internal-embed[src]").forEach((embed) => {
+        const linkpath = getLinkpath(embed.getAttribute("src") ?? "");
+        if (!linkpath.toLowerCase().endsWith(".sgf")) return;
+        const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, ctx.sourcePath);
+        if (!(file instanceof TFile)) return;
+
+        const alt = embed.getAttribute("alt") ?? "";
+        const options = parseOptions(alt === linkpath ? [] : alt.split(","));
+        void this.app.vault.cachedRead(file).then((content) => {
+          embed.addClass("goban-embed");
+          ctx.addChild(
+            new GobanRenderChild(embed, this, ctx.sourcePath, (container) => this.renderSGF(content, options, container))
+          );
+        }).catch((error) => {
+          embed.empty();
+          embed.addClass("goban-embed");
+          embed.createDiv({ cls: "goban-error", text: "Cannot read SGF: " + (error as Error).message });
+        });
+      });
+    };
+  }
+
+  private renderSGF(content: string, options: BlockOptions, el: HTMLElement) {
+    let diagram: string;
+    let comment: string;
+    let solution: SolutionNode | undefined;
+    try {
+      const tree = parseSGF(content);
+      // a problem starts from the position before the first move
+      ({ diagram, comment } = sgfToDiagram(tree, options.problem ? { ...options, move: 0 } : options));
+      if (options.problem) solution = sgfSolution(tree);
+    } catch (error) {
+      el.createDiv({ cls: "goban-error", text: "Cannot read SGF: " + (error as Error).message });
+      return;
+    }
+    this.renderDiagram(diagram, options, el, 0, solution);
+    if (comment) {
+      el.createEl("p", { cls: "goban-comment", text: comment });
+    }
+  }
+
+  /** Rendering options of a diagram: the settings, overridden by the options of its block. */
+  blockDiagramOptions(blockOptions: BlockOptions): GoDiagramOptions {
+    const options = diagramOptions(this.settings);
+    if (blockOptions.width !== undefined) options.width = blockOptions.width;
+    if (blockOptions.coordinates !== undefined) options.coordinates = blockOptions.coordinates;
+    if (blockOptions.coordinateSides !== undefined) options.coordinateSides = blockOptions.coordinateSides;
+    if (blockOptions.coordinateStyle !== undefined) options.coordinateStyle = blockOptions.coordinateStyle;
+    if (blockOptions.caption !== undefined) options.caption = blockOptions.caption;
+    if (blockOptions.stoneStyle !== undefined) options.stoneStyle = blockOptions.stoneStyle;
+    if (blockOptions.shadows !== undefined) options.shadows = blockOptions.shadows;
+    if (blockOptions.boardTexture !== undefined) options.boardTexture = blockOptions.boardTexture;
+    if (blockOptions.theme !== undefined) {
+      // a fixed theme replaces the colors of the settings as well
+      options.theme = blockOptions.theme;
+      options.colors = {};
+    }
+    return options;
+  }
+
+  /** Render a diagram, or its errors.
+   *  lineOffset is the position of the diagram inside the code block,
+   *  used to report the right line numbers.
+   *  solution is the solution of a problem kept outside of the diagram (SGF).
+   *  Returns false if the diagram has errors.
+   **/
+  private renderDiagram(
+    source: string,
+    blockOptions: BlockOptions,
+    el: HTMLElement,
+    lineOffset = 0,
+    solution?: SolutionNode
+  ): boolean {
+    const options = this.blockDiagramOptions(blockOptions);
+    const parsed = parseDiagram(source);
+    const goban = new GoDiagram(transformDiagram(parsed, blockOptions), options);
+    if (goban.hasErrors()) {
+      this.renderDiagnostics(goban.diagnostics, el, lineOffset);
+      this.renderSource(source, goban.diagnostics, el);
+      return false;
+    }
+    el.setCssProps(colorProperties(this.settings));
+    // exports always show the whole diagram, whatever move is displayed
+    const attachExporter = (block: SVGSVGElement) => new DiagramExporter(this, block, goban.model, options).attach();
+    const problem = blockOptions.problem
+      ? (solution ? transformSolution(solution, parsed, blockOptions) : diagramSolution(goban.model))
+      : null;
+    if (problem && problem.children.length > 0) {
+      new DiagramProblem(el, goban.model, problem, options, attachExporter).show();
+    } else if (blockOptions.playback && goban.model.moves.length > 0) {
+      new DiagramPlayback(el, goban.model, options, attachExporter).show();
+    } else {
+      const block = goban.createSVG(activeDocument).element;
+      el.appendChild(block);
+      attachExporter(block);
+    }
+    this.renderDiagnostics(goban.diagnostics, el, lineOffset);
+    return true;
+  }
+
+  private addEditButton(el: HTMLElement, onClick: () => void) {
+    const button = el.createEl("button", { cls: "goban-edit-button clickable-icon", attr: { "aria-label": "Edit diagram" } });
+    setIcon(button, "pencil");
+    button.addEventListener("click", (evt) => {
+      // keep live preview from moving the cursor into the block
+      evt.stopPropagation();
+      onClick();
+    });
+  }
+
+  /** Replace the diagram of a code block in its note, keeping the options lines.
+   *  bodyStart is the line of the block where the diagram starts.
+   **/
+  private async replaceBlockBody(el: HTMLElement, ctx: MarkdownPostProcessorContext, bodyStart: number, diagram: string) {
+    const section = ctx.getSectionInfo(el);
+    const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+    if (!section || !(file instanceof TFile)) throw new Error("the code block was not found");
+
+    const { lineStart, lineEnd } = section;
+    const lines = (await this.app.vault.read(file)).split("\n");
+    const rendered = section.text.split("\n").slice(lineStart, lineEnd + 1).join("\n");
+    if (lines.slice(lineStart, lineEnd + 1).join("\n") !== rendered) {
+      throw new Error("the note has changed since the diagram was drawn");
+    }
+    // lineStart and lineEnd are the fences of the block
+    lines.splice(lineStart + 1 + bodyStart, lineEnd - lineStart - 1 - bodyStart, ...diagram.split("\n"));
+    await this.app.vault.modify(file, lines.join("\n"));
+  }
+
+  private renderDiagnostics(diagnostics: DiagramDiagnostic[], el: HTMLElement, lineOffset: number) {
+    if (diagnostics.length === 0) return;
+    const list = el.createEl("ul", { cls: "goban-diagnostics" });
+    for (const diagnostic of diagnostics) {
+      list.createEl("li", {
+        cls: "goban-diagnostic-" + diagnostic.severity,
+        text: `Line ${diagnostic.line + lineOffset + 1}, column ${diagnostic.column + 1}: ${diagnostic.message}`,
+      });
+    }
+  }
+
+  /** Show the diagram source with the lines containing errors highlighted. */
+  private renderSource(source: string, diagnostics: DiagramDiagnostic[], el: HTMLElement) {
+    const errorLines = new Set(diagnostics.filter((d) => d.severity === "error").map((d) => d.line));
+    const pre = el.createEl("pre", { cls: "goban-source" });
+    source.split("\n").forEach((line, i) => {
+      pre.createDiv({ cls: errorLines.has(i) ? "goban-source-line goban-source-error" : "goban-source-line", text: line || " " });
+    });
   }
 }
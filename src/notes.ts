@@ -0,0 +1,31 @@
+/**
+ * Goban blocks in the Markdown of notes.
+ *
+ * findGobanBlocks() finds the fenced `goban` blocks of a note, with their
+ * content and position, for the features working across the vault: the
+ * review of problems (review.ts) and the links of the diagrams (links.ts).
+ **/
+
+export interface GobanBlock {
+  line: number;       // line of the opening fence in the note
+  source: string;     // content of the block, options included
+}
+
+const GOBAN_FENCE = /^\s*(`{3,}|~{3,})\s*goban\s*$/;
+
+/** The goban blocks of a note, in order. A block left open ends with the note. */
+export function findGobanBlocks(content: string): GobanBlock[] {
+  const blocks: GobanBlock[] = [];
+  const lines = content.split("\n");
+  for (let start = 0; start < lines.length; start++) {
+    const fence = lines[start].match(GOBAN_FENCE)?.[1];
+    if (!fence) continue;
+    // the closing fence is made of the same character, at least as many times
+    const closes = (line: string) => line.trim().length >= fence.length && line.trim() === fence[0].repeat(line.trim().length);
+    let end = start + 1;
+    while (end < lines.length && !closes(lines[end])) end++;
+    blocks.push({ line: start, source: lines.slice(start + 1, end).join("\n") });
+    start = end;
+  }
+  return blocks;
+}
@@ -0,0 +1,156 @@
+/**
+ * Per-diagram options.
+ *
+ * A `goban` or `sgf` block may start with an options section made of
+ * "key: value" lines, optionally enclosed between two "---" lines:
+ *
+ *   width: 300
+ *   theme: dark
+ *   coords: false
+ *   rotate: 90
+ *   $$ ...
+ *
+ * Options given here override the plugin settings for that diagram only.
+ **/
+
+import { CoordinateSide, CoordinateStyle, COORDINATE_STYLES, parseCoordinateSides } from "./coordinates";
+import { DiagramTheme } from "./sltxt2svg";
+import { BOARD_TEXTURES, BoardTexture, STONE_STYLES, StoneStyle } from "./textures";
+import { FlipDirection, POINT_PATTERN, REGION_PATTERN, Rotation } from "./transform";
+
+export interface BlockOptions {
+  width?: number;
+  theme?: DiagramTheme;
+  coordinates?: boolean;
+  coordinateSides?: CoordinateSide[];
+  coordinateStyle?: CoordinateStyle;
+  caption?: boolean;
+  stoneStyle?: StoneStyle;
+  shadows?: boolean;
+  boardTexture?: BoardTexture;
+  playback?: boolean;
+  problem?: boolean;
+  origin?: string;
+  region?: string;
+  rotate?: Rotation;
+  flip?: FlipDirection;
+  swapColors?: boolean;
+  move?: number;      // sgf only
+  numbers?: number;   // sgf only
+}
+
+const OPTION_LINE = /^\s*([a-z-]+)\s*[:=]\s*(.*?)\s*$/i;
+const FRONT_MATTER_FENCE = /^\s*---\s*$/;
+
+/**
+ * Split the options section from the diagram source.
+ * bodyStart is the line of the source where the diagram starts.
+ **/
+export function splitBlockOptions(source: string): { options: BlockOptions; body: string; bodyStart: number } {
+  const lines = source.split("\n");
+  let end = 0;
+  let optionLines: string[];
+
+  if (FRONT_MATTER_FENCE.test(lines[0] ?? "")) {
+    const closing = lines.findIndex((line, i) => i > 0 && FRONT_MATTER_FENCE.test(line));
+    if (closing < 0) return { options: {}, body: source, bodyStart: 0 };
+    optionLines = lines.slice(1, closing);
+    end = closing + 1;
+  } else {
+    while (end < lines.length && (OPTION_LINE.test(lines[end]) || lines[end].trim() === "")) end++;
+    optionLines = lines.slice(0, end);
+  }
+
+  return { options: parseOptions(optionLines), body: lines.slice(end).join("\n"), bodyStart: end };
+}
+
+/**
+ * Parse "key: value" (or "key=value") lines. Unknown keys and invalid
+ * values are ignored.
+ **/
+export function parseOptions(lines: string[]): BlockOptions {
+  const options: BlockOptions = {};
+  for (const line of lines) {
+    const match = line.match(OPTION_LINE);
+    if (!match) continue;
+    const value = match[2].toLowerCase();
+    const number = parseInt(value);
+    const flag = parseBoolean(value);
+    switch (match[1].toLowerCase()) {
+      case "width":
+        if (number > 0) options.width = number;
+        break;
+      case "theme":
+        if (value === "light" || value === "dark" || value === "print") options.theme = value;
+        break;
+      case "coords":
+      case "coordinates":
+        if (flag !== undefined) options.coordinates = flag;
+        break;
+      case "coord-sides":
+      case "coords-sides": {
+        const sides = parseCoordinateSides(value);
+        if (sides) options.coordinateSides = sides;
+        break;
+      }
+      case "coord-style":
+      case "coords-style":
+        if (Object.prototype.hasOwnProperty.call(COORDINATE_STYLES, value)) options.coordinateStyle = value as CoordinateStyle;
+        break;
+      case "caption":
+        if (flag !== undefined) options.caption = flag;
+        break;
+      case "stones":
+      case "stone-style":
+        if (Object.prototype.hasOwnProperty.call(STONE_STYLES, value)) options.stoneStyle = value as StoneStyle;
+        break;
+      case "shadows":
+        if (flag !== undefined) options.shadows = flag;
+        break;
+      case "board":
+      case "texture":
+        if (Object.prototype.hasOwnProperty.call(BOARD_TEXTURES, value)) options.boardTexture = value as BoardTexture;
+        break;
+      case "play":
+      case "playback":
+        if (flag !== undefined) options.playback = flag;
+        break;
+      case "problem":
+      case "tsumego":
+        if (flag !== undefined) options.problem = flag;
+        break;
+      case "origin":
+        if (POINT_PATTERN.test(value)) options.origin = value;
+        break;
+      case "region":
+      case "view":
+        if (REGION_PATTERN.test(value)) options.region = value;
+        break;
+      case "rotate":
+        // any multiple of 90 degrees, counterclockwise when negative
+        if (number % 90 === 0) options.rotate = (((number % 360) + 360) % 360) as Rotation;
+        break;
+      case "flip":
+      case "mirror":
+        if (value === "horizontal" || value === "vertical") options.flip = value;
+        break;
+      case "swap-colors":
+      case "swap":
+        if (flag !== undefined) options.swapColors = flag;
+        break;
+      case "move":
+        if (!isNaN(number)) options.move = number;
+        break;
+      case "numbers":
+        if (!isNaN(number)) options.numbers = number;
+        break;
+    }
+  }
+  return options;
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  if (["true", "yes", "on"].includes(value)) return true;
+  if (["false", "no", "off"].includes(value)) return false;
+  return undefined;
+}
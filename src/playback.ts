@@ -0,0 +1,127 @@
+/**
+ * Move-by-move playback of numbered diagrams.
+ *
+ * With the "playback" option the numbered stones are not drawn all at once:
+ * the diagram starts from the position before move 1, and the first,
+ * previous, next and last buttons (or the arrow, Home and End keys) play
+ * the moves in numeric order. Captured stones are removed and the stone
+ * played last is ringed. Without the option the static diagram is shown.
+ **/
+
+import { setIcon } from "obsidian";
+import { BoardModel, BoardPoint, DiagramMove, StoneColor } from "./diagram";
+import { replayDiagram } from "./rules";
+import { GoDiagram, GoDiagramOptions } from "./sltxt2svg";
+
+export interface PlaybackStep {
+  model: BoardModel;              // the position after the move
+  move: DiagramMove | null;       // null before the first move
+}
+
+/** The point with its stone, mark, number or letter removed. */
+export function emptyPoint(point: BoardPoint): BoardPoint {
+  return { ...point, symbol: ".", stone: null, mark: null, move: null, label: null, hoshi: false, onBoard: true };
+}
+
+/** A plain stone on the point. */
+export function stonePoint(point: BoardPoint, color: StoneColor): BoardPoint {
+  return { ...emptyPoint(point), symbol: color === "B" ? "X" : "O", stone: color };
+}
+
+/** The position before the first move: the diagram without its numbered stones. */
+export function startPosition(model: BoardModel): BoardModel {
+  const points = model.points.map((row) => row.map((point) => (point.move === null ? point : emptyPoint(point))));
+  return { ...model, points, moves: [] };
+}
+
+/**
+ * Positions of a numbered diagram: the one before the first move, then the
+ * one after each move, in numeric order. Moves of the title ("4 at 1") are
+ * drawn as plain stones.
+ **/
+export function playbackSteps(model: BoardModel): PlaybackStep[] {
+  const start = startPosition(model);
+  let points = start.points;
+  const steps: PlaybackStep[] = [{ model: start, move: null }];
+
+  for (const { move, captured } of replayDiagram(model).steps) {
+    const point = model.points[move.y][move.x];
+    points = points.map((row) => row.slice());
+    points[move.y][move.x] = point.move === move.number ? point : stonePoint(point, move.color);
+    captured.forEach(([x, y]) => (points[y][x] = emptyPoint(points[y][x])));
+    const moves = model.moves.filter((played) => played.number <= move.number);
+    steps.push({ model: { ...model, points, moves }, move });
+  }
+  return steps;
+}
+
+export class DiagramPlayback {
+  private steps: PlaybackStep[];
+  private current = 0;
+  private boardEl!: HTMLElement;
+  private counterEl!: HTMLElement;
+  private backButtons: HTMLButtonElement[] = [];
+  private forwardButtons: HTMLButtonElement[] = [];
+
+  constructor(
+    private containerEl: HTMLElement,
+    private model: BoardModel,
+    private options: GoDiagramOptions,
+    private onDraw: (element: SVGSVGElement) => void = () => {}  // called with each drawn position
+  ) {
+    this.steps = playbackSteps(model);
+  }
+
+  show(): void {
+    const wrapper = this.containerEl.createDiv({ cls: "goban-playback", attr: { tabindex: 0 } });
+    this.boardEl = wrapper.createDiv({ cls: "goban-playback-board" });
+    const controls = wrapper.createDiv({ cls: "goban-playback-controls" });
+
+    const button = (icon: string, label: string, target: () => number) => {
+      const el = controls.createEl("button", { cls: "clickable-icon", attr: { "aria-label": label } });
+      setIcon(el, icon);
+      el.addEventListener("click", () => this.go(target()));
+      return el;
+    };
+    this.backButtons = [
+      button("chevrons-left", "First move", () => 0),
+      button("chevron-left", "Previous move", () => this.current - 1),
+    ];
+    this.counterEl = controls.createSpan({ cls: "goban-playback-counter" });
+    this.forwardButtons = [
+      button("chevron-right", "Next move", () => this.current + 1),
+      button("chevrons-right", "Last move", () => this.steps.length - 1),
+    ];
+
+    wrapper.addEventListener("keydown", (evt) => {
+      const target: Record<string, number> = {
+        ArrowLeft: this.current - 1,
+        ArrowRight: this.current + 1,
+        Home: 0,
+        End: this.steps.length - 1,
+      };
+      if (target[evt.key] === undefined) return;
+      evt.preventDefault();
+      this.go(target[evt.key]);
+    });
+
+    this.go(0);
+  }
+
+  private go(step: number): void {
+    this.current = Math.max(0, Math.min(step, this.steps.length - 1));
+    const { model, move } = this.steps[this.current];
+    const lastMove = move ? { x: move.x, y: move.y } : undefined;
+    const element = new GoDiagram(model, { ...this.options, lastMove }).createSVG(activeDocument).element;
+    this.boardEl.empty();
+    this.boardEl.appendChild(element);
+    this.onDraw(element);
+
+    const startMove = this.model.metadata.startMove;
+    this.counterEl.setText(
+      move ? `Move ${startMove + move.number - 1}` : `Start (${this.steps.length - 1} moves)`
+    );
+    this.backButtons.forEach((el) => (el.disabled = this.current === 0));
+    this.forwardButtons.forEach((el) => (el.disabled = this.current === this.steps.length - 1));
+  }
+}
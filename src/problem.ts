@@ -0,0 +1,215 @@
+/**
+ * Problem mode: life-and-death problems to solve on the board.
+ *
+ * With the "problem" option the diagram shows only its starting position,
+ * and the reader plays by clicking the points of the board. Each move is
+ * checked against a solution tree: the numbered moves of a goban block, or
+ * the variations of an SGF record (sgfSolution). The opponent answers with
+ * the first variation that still works for the reader, or with the
+ * refutation of a wrong move. The status line tells who is to play and when
+ * the problem is solved or failed; the buttons show the solution and go
+ * back to the start.
+ **/
+
+import { setIcon } from "obsidian";
+import { BoardModel, CellPosition, DiagramMove, splitTitle, StoneColor } from "./diagram";
+import { emptyPoint, startPosition, stonePoint } from "./playback";
+import { Board, playStone, replayDiagram } from "./rules";
+import { GoDiagram, GoDiagramOptions } from "./sltxt2svg";
+import { DiagramTransform, transformCell } from "./transform";
+
+export interface SolutionMove {
+  color: StoneColor;
+  x: number;
+  y: number;
+}
+
+export interface SolutionNode {
+  move: SolutionMove | null;    // null at the root, the starting position
+  correct: boolean;             // some line through this move ends well for the reader
+  comment: string;
+  children: SolutionNode[];     // the answers, first one first
+}
+
+type ProblemState = "playing" | "solved" | "failed" | "revealed";
+
+const COLOR_NAMES: Record<StoneColor, string> = { B: "Black", W: "White" };
+
+/** The numbered moves of a diagram, in numeric order, as a single correct line. */
+export function diagramSolution(model: BoardModel): SolutionNode {
+  const root: SolutionNode = { move: null, correct: true, comment: "", children: [] };
+  let node = root;
+  for (const { move } of replayDiagram(model).steps) {
+    const next: SolutionNode = { move: { color: move.color, x: move.x, y: move.y }, correct: true, comment: "", children: [] };
+    node.children.push(next);
+    node = next;
+  }
+  return root;
+}
+
+/**
+ * The solution of a diagram turned with its transform. model is the diagram
+ * before the transform; moves cropped out of the diagram are left out with
+ * the lines going through them.
+ **/
+export function transformSolution(node: SolutionNode, model: BoardModel, transform: DiagramTransform): SolutionNode {
+  const children: SolutionNode[] = [];
+  for (const child of node.children) {
+    if (!child.move) continue;
+    const cell = transformCell(model, transform, child.move);
+    if (!cell) continue;
+    const color = transform.swapColors ? (child.move.color === "B" ? "W" : "B") : child.move.color;
+    children.push({ ...transformSolution(child, model, transform), move: { color, ...cell } });
+  }
+  return { ...node, children };
+}
+
+export class DiagramProblem {
+  private start: BoardModel;      // the position before the first move
+  private board!: Board;
+  private node!: SolutionNode;    // the last move played, in the solution tree
+  private lastMove: CellPosition | null = null;
+  private state: ProblemState = "playing";
+  private boardEl!: HTMLElement;
+  private statusEl!: HTMLElement;
+  private commentEl!: HTMLElement;
+
+  constructor(
+    private containerEl: HTMLElement,
+    private model: BoardModel,
+    private solution: SolutionNode,
+    private options: GoDiagramOptions,
+    private onDraw: (element: SVGSVGElement) => void = () => {},  // called with each drawn position
+    private onFinish: (solved: boolean) => void = () => {}  // called when a try ends, or the solution is shown
+  ) {
+    // the moves of the title ("4 at 1") give the solution away
+    const start = startPosition(model);
+    const { text } = splitTitle(model.metadata.title, model.metadata.firstColor);
+    this.start = { ...start, metadata: { ...start.metadata, title: text.join(", "), moveNotes: [] } };
+  }
+
+  show(): void {
+    const wrapper = this.containerEl.createDiv({ cls: "goban-problem" });
+    this.boardEl = wrapper.createDiv({ cls: "goban-problem-board" });
+    const controls = wrapper.createDiv({ cls: "goban-problem-controls" });
+    this.statusEl = controls.createSpan({ cls: "goban-problem-status" });
+
+    const button = (icon: string, label: string, onClick: () => void) => {
+      const el = controls.createEl("button", { cls: "clickable-icon", attr: { "aria-label": label } });
+      setIcon(el, icon);
+      el.addEventListener("click", onClick);
+    };
+    button("eye", "Show solution", () => this.reveal());
+    button("rotate-ccw", "Start again", () => this.reset());
+    this.commentEl = wrapper.createDiv({ cls: "goban-problem-comment" });
+
+    this.boardEl.addEventListener("click", (evt) => {
+      const area = (evt.target as Element).closest("[data-x]");
+      if (area) this.play(parseInt(area.getAttribute("data-x") ?? ""), parseInt(area.getAttribute("data-y") ?? ""));
+    });
+
+    this.reset();
+  }
+
+  private reset(): void {
+    this.board = this.start.points.map((row) => row.map((point) => point.stone));
+    this.node = this.solution;
+    this.lastMove = null;
+    this.state = "playing";
+    this.draw();
+  }
+
+  /** Play the reader's move at x, y, then the answer of the opponent. */
+  private play(x: number, y: number): void {
+    if (this.state !== "playing" || this.board[y]?.[x] !== null) return;
+    const color = this.node.children[0]?.move?.color;
+    if (!color) return;
+
+    this.place({ color, x, y });
+    const next = this.node.children.find((child) => child.move?.x === x && child.move.y === y);
+    if (!next) {
+      this.state = "failed";
+    } else {
+      this.node = next;
+      const answer = next.children.find((child) => child.correct) ?? next.children[0];
+      if (answer?.move) {
+        this.place(answer.move);
+        this.node = answer;
+      }
+      if (!this.node.correct) this.state = "failed";
+      else if (this.node.children.length === 0) this.state = "solved";
+    }
+    this.draw();
+    if (this.state !== "playing") this.onFinish(this.state === "solved");
+  }
+
+  private place(move: SolutionMove): void {
+    playStone(this.board, move.x, move.y, move.color, this.start.borders);
+    this.lastMove = { x: move.x, y: move.y };
+  }
+
+  private reveal(): void {
+    this.state = "revealed";
+    this.lastMove = null;
+    this.draw();
+    this.onFinish(false);
+  }
+
+  private draw(): void {
+    // a numbered diagram is its own solution, an SGF record has its moves in the tree only
+    const model = this.state !== "revealed"
+      ? this.position()
+      : this.model.moves.length > 0 ? this.model : this.solutionModel();
+    const element = new GoDiagram(model, {
+      ...this.options,
+      lastMove: this.lastMove ?? undefined,
+      playable: this.state === "playing",
+    }).createSVG(activeDocument).element;
+    this.boardEl.empty();
+    this.boardEl.appendChild(element);
+    this.onDraw(element);
+
+    const toPlay = this.node.children[0]?.move?.color ?? "B";
+    const status: Record<ProblemState, string> = {
+      playing: (this.node === this.solution ? "" : "Correct. ") + `${COLOR_NAMES[toPlay]} to play`,
+      solved: "Solved",
+      failed: "Wrong",
+      revealed: "Solution",
+    };
+    this.statusEl.setText(status[this.state]);
+    this.statusEl.toggleClass("is-solved", this.state === "solved");
+    this.statusEl.toggleClass("is-failed", this.state === "failed");
+    this.commentEl.setText(this.state === "revealed" ? "" : this.node.comment);
+  }
+
+  /** The starting position with the stones played since. */
+  private position(): BoardModel {
+    const points = this.start.points.map((row, y) =>
+      row.map((point, x) => {
+        const stone = this.board[y][x];
+        if (stone === point.stone) return point;
+        return stone === null ? emptyPoint(point) : stonePoint(point, stone);
+      })
+    );
+    return { ...this.start, points };
+  }
+
+  /**
+   * The starting position with the first correct line numbered. The line
+   * stops at a move played where a stone was captured, as in the diagrams.
+   **/
+  private solutionModel(): BoardModel {
+    const points = this.start.points.map((row) => row.slice());
+    const moves: DiagramMove[] = [];
+    let node = this.solution;
+    while (node.children.length > 0) {
+      node = node.children.find((child) => child.correct) ?? node.children[0];
+      const number = moves.length + 1;
+      if (!node.move || points[node.move.y][node.move.x].stone !== null) break;
+      const { color, x, y } = node.move;
+      points[y][x] = { ...stonePoint(points[y][x], color), symbol: String(number), move: number };
+      moves.push({ number, color, x, y, line: 0, column: 0 });
+    }
+    return { ...this.start, points, moves };
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Spaced-repetition review of the problems of the vault.
+ *
+ * findProblems() lists the goban blocks of a note with the "problem" option.
+ * ProblemIndex keeps them for the whole vault, and the "Review Go problems"
+ * command shows the ones due in ReviewModal, one at a time: solving a
+ * problem at the first try passes it, a wrong move or showing the solution
+ * fails it.
+ * scheduleReview() (schedule.ts) then sets the next review the SM-2 way.
+ * The records are kept in the plugin data, and ReviewQueueView lists the
+ * problems by due date.
+ *
+ * A problem is known by its note and a hash of its diagram, so editing the
+ * diagram starts its schedule again.
+ **/
+
+import { App, Events, ItemView, Modal, Notice, Plugin, WorkspaceLeaf } from "obsidian";
+import { hasErrors, parseDiagram, splitTitle } from "./diagram";
+import type ObsidianGoban from "./main";
+import { findGobanBlocks } from "./notes";
+import { splitBlockOptions } from "./options";
+import { diagramSolution, DiagramProblem } from "./problem";
+import { isDue } from "./schedule";
+import { transformDiagram } from "./transform";
+
+export const REVIEW_QUEUE_VIEW = "goban-review-queue";
+const QUEUE_CHECK_INTERVAL = 60 * 1000;  // how often the queue looks for problems that became due
+
+export interface ProblemBlock {
+  key: string;        // path of the note and hash of the diagram
+  path: string;
+  line: number;       // line of the opening fence in the note
+  source: string;     // content of the block, options included
+  title: string;      // title of the diagram, without the moves
+}
+
+/** FNV-1a hash of a text, in base 36. */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/** The goban blocks of a note with the problem option and a solution. */
+export function findProblems(path: string, content: string): ProblemBlock[] {
+  const problems: ProblemBlock[] = [];
+  for (const { line, source } of findGobanBlocks(content)) {
+    const { options, body } = splitBlockOptions(source);
+    const model = parseDiagram(body);
+    if (options.problem && !hasErrors(model) && model.moves.length > 0) {
+      const title = splitTitle(model.metadata.title, model.metadata.firstColor).text.join(", ");
+      problems.push({ key: path + "#" + hashText(body), path, line, source, title });
+    }
+  }
+  return problems;
+}
+
+/**
+ * The problems of the vault, by note. The notes are read once, the first
+ * time the problems are asked for, then kept current from the events of the
+ * metadata cache and the vault. The index triggers "changed" when its
+ * problems change.
+ **/
+export class ProblemIndex extends Events {
+  private notes = new Map<string, ProblemBlock[]>();
+  private loading: Promise<void> | null = null;
+
+  constructor(private app: App) {
+    super();
+  }
+
+  /** Follow the changes of the notes for as long as the plugin is loaded. */
+  register(plugin: Plugin): void {
+    const { metadataCache, vault } = this.app;
+    plugin.registerEvent(
+      metadataCache.on("changed", (file, content) => {
+        if (file.extension !== "md") return;
+        const keys = (problems: ProblemBlock[] = []) => problems.map((problem) => `${problem.key}:${problem.line}`).join();
+        const problems = findProblems(file.path, content);
+        const before = this.notes.get(file.path);
+        this.notes.set(file.path, problems);
+        // most edits leave the problems of the note as they were
+        if (keys(problems) !== keys(before)) this.trigger("changed");
+      })
+    );
+    plugin.registerEvent(
+      metadataCache.on("deleted", (file) => {
+        if (this.notes.delete(file.path)) this.trigger("changed");
+      })
+    );
+    plugin.registerEvent(
+      vault.on("rename", (file, oldPath) => {
+        const problems = this.notes.get(oldPath);
+        if (!problems) return;
+        this.notes.delete(oldPath);
+        this.notes.set(
+          file.path,
+          problems.map((problem) => ({ ...problem, path: file.path, key: file.path + problem.key.slice(oldPath.length) }))
+        );
+        this.trigger("changed");
+      })
+    );
+  }
+
+  /** The problems of all the notes of the vault. */
+  async problems(): Promise<ProblemBlock[]> {
+    this.loading = this.loading ?? this.load();
+    await this.loading;
+    const problems: ProblemBlock[] = [];
+    this.notes.forEach((found) => problems.push(...found));
+    return problems;
+  }
+
+  private async load(): Promise<void> {
+    await Promise.all(
+      this.app.vault.getMarkdownFiles().map(async (file) => {
+        const content = await this.app.vault.cachedRead(file).catch(() => null);
+        // a note changed while the others were read is already up to date, a deleted one is left out
+        if (content !== null && !this.notes.has(file.path)) this.notes.set(file.path, findProblems(file.path, content));
+      })
+    );
+  }
+}
+
+/** Shows the problems one at a time and records the first try at each. */
+export class ReviewModal extends Modal {
+  private current = 0;
+
+  constructor(
+    private plugin: ObsidianGoban,
+    private problems: ProblemBlock[]
+  ) {
+    super(plugin.app);
+  }
+
+  onOpen() {
+    this.modalEl.addClass("goban-review");
+    this.showProblem();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private showProblem() {
+    const { contentEl } = this;
+    contentEl.empty();
+    const problem = this.problems[this.current];
+    if (!problem) {
+      this.titleEl.setText("Review finished");
+      contentEl.createEl("p", { text: "No more problems are due." });
+      contentEl.createDiv({ cls: "modal-button-container" })
+        .createEl("button", { cls: "mod-cta", text: "Close" })
+        .addEventListener("click", () => this.close());
+      return;
+    }
+
+    this.titleEl.setText(`Problem ${this.current + 1} of ${this.problems.length}`);
+    const note = contentEl.createDiv({ cls: "goban-review-note" });
+    note.createEl("a", { text: problem.title || problem.path, href: "#" }).addEventListener("click", (evt) => {
+      evt.preventDefault();
+      this.close();
+      void this.plugin.app.workspace.openLinkText(problem.path, "", false, { eState: { line: problem.line } });
+    });
+    if (problem.title) note.createSpan({ cls: "goban-review-path", text: problem.path });
+
+    const { options, body } = splitBlockOptions(problem.source);
+    const model = transformDiagram(parseDiagram(body), options);
+    const problemEl = contentEl.createDiv({ cls: "goban-review-problem" });
+    const resultEl = contentEl.createDiv({ cls: "goban-review-result" });
+    const footer = contentEl.createDiv({ cls: "modal-button-container" });
+    const next = footer.createEl("button", { cls: "mod-cta", text: "Next" });
+    next.disabled = true;
+    next.addEventListener("click", () => this.go(this.current + 1));
+    footer.createEl("button", { text: "Skip" }).addEventListener("click", () => this.go(this.current + 1));
+
+    let recorded = false;
+    const record = (solved: boolean) => {
+      // only the first try counts
+      if (recorded) return;
+      recorded = true;
+      next.disabled = false;
+      this.plugin.recordReview(problem.key, solved)
+        .then((review) =>
+          resultEl.setText(
+            (solved ? "Passed" : "Failed") + `, next review in ${review.interval} ${review.interval === 1 ? "day" : "days"}.`
+          )
+        )
+        .catch((error: Error) => new Notice("Cannot save the review: " + error.message));
+    };
+    new DiagramProblem(problemEl, model, diagramSolution(model), this.plugin.blockDiagramOptions(options), undefined, record).show();
+  }
+
+  private go(index: number) {
+    this.current = index;
+    this.showProblem();
+  }
+}
+
+/** Side view listing the problems of the vault by due date. */
+export class ReviewQueueView extends ItemView {
+  private nextDue: number | null = null;  // earliest review of the problems not due yet
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: ObsidianGoban
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return REVIEW_QUEUE_VIEW;
+  }
+
+  getDisplayText(): string {
+    return "Go problems";
+  }
+
+  getIcon(): string {
+    return "list-checks";
+  }
+
+  async onOpen() {
+    this.registerEvent(this.plugin.problems.on("changed", () => void this.refresh()));
+    // a problem reviewed earlier comes back in the queue once it is due
+    this.registerInterval(
+      window.setInterval(() => {
+        if (this.nextDue !== null && this.nextDue <= Date.now()) void this.refresh();
+      }, QUEUE_CHECK_INTERVAL)
+    );
+    await this.refresh();
+  }
+
+  /** Read the problems of the vault again and list them. */
+  async refresh(): Promise<void> {
+    const problems = await this.plugin.problems.problems();
+    const now = Date.now();
+    const due = (problem: ProblemBlock) => this.plugin.reviews[problem.key]?.due ?? 0;
+    problems.sort((a, b) => due(a) - due(b));
+    const dueCount = problems.filter((problem) => isDue(this.plugin.reviews[problem.key], now)).length;
+    const later = problems.map(due).filter((time) => time > now);
+    this.nextDue = later.length > 0 ? Math.min(...later) : null;
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("goban-review-queue");
+    const header = contentEl.createDiv({ cls: "goban-review-queue-header" });
+    header.createSpan({ text: `${dueCount} of ${problems.length} problems due` });
+    const review = header.createEl("button", { cls: "mod-cta", text: "Review" });
+    review.disabled = dueCount === 0;
+    review.addEventListener("click", () => void this.plugin.reviewProblems());
+
+    const list = contentEl.createEl("ul", { cls: "goban-review-queue-list" });
+    for (const problem of problems) {
+      const record = this.plugin.reviews[problem.key];
+      const item = list.createEl("li", { cls: isDue(record, now) ? "is-due" : "" });
+      item.createDiv({ cls: "goban-review-queue-title", text: problem.title || problem.path });
+      item.createDiv({
+        cls: "goban-review-queue-due",
+        text: !record ? "New" : isDue(record, now) ? "Due" : "Next review " + new Date(record.due).toLocaleDateString(),
+      });
+      item.addEventListener("click", () => {
+        void this.app.workspace.openLinkText(problem.path, "", false, { eState: { line: problem.line } });
+      });
+    }
+  }
+}
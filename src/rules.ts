@@ -0,0 +1,177 @@
+/**
+ * Rules of Go: groups, liberties, captures, suicide and ko.
+ *
+ * Boards are rectangular grids, board[y][x]. A grid may be part of a larger
+ * board: on the sides where it has no border the board goes on, and the
+ * points beyond the grid count as liberties.
+ *
+ * replayDiagram() plays the numbered moves of a diagram, and the moves of
+ * its title, in numeric order from the stones set up in the diagram. It
+ * gives the final position, the stones captured by each move and warnings
+ * for the moves breaking the rules.
+ **/
+
+// types only: diagram.ts runs replayDiagram() at the end of parsing
+import type { BoardModel, DiagramBorders, DiagramDiagnostic, DiagramMove, StoneColor } from "./diagram";
+
+export type Board = (StoneColor | null)[][];
+export type Point = [number, number];
+
+export interface Group {
+  color: StoneColor;
+  stones: Point[];
+  liberties: Point[];         // liberties beyond an open side are outside of the grid
+}
+
+export interface ReplayStep {
+  move: DiagramMove;
+  captured: Point[];          // stones removed by the move, the move itself for a suicide
+}
+
+export interface ReplayResult {
+  board: Board;               // the final position
+  steps: ReplayStep[];        // the moves played, in numeric order
+  captures: Record<StoneColor, number>;  // stones captured by each color
+  diagnostics: DiagramDiagnostic[];
+}
+
+const CLOSED: DiagramBorders = { top: true, bottom: true, left: true, right: true };
+
+/** Create an empty board. */
+export function emptyBoard(width: number, height: number): Board {
+  const board: Board = [];
+  for (let y = 0; y < height; y++) board.push(new Array<StoneColor | null>(width).fill(null));
+  return board;
+}
+
+/**
+ * The group of the stone at x, y with its liberties, or null if the point
+ * is empty. borders tells which sides of the grid are the edges of the board.
+ **/
+export function groupAt(board: Board, x: number, y: number, borders: DiagramBorders = CLOSED): Group | null {
+  const color = board[y]?.[x] ?? null;
+  if (color === null) return null;
+  const height = board.length;
+  const width = board[0].length;
+  const inside = (px: number, py: number) => px >= 0 && py >= 0 && px < width && py < height;
+  // a neighbour outside of the grid is a liberty unless the board ends there
+  const openSide = (px: number, py: number) =>
+    (px < 0 && !borders.left) || (px >= width && !borders.right) || (py < 0 && !borders.top) || (py >= height && !borders.bottom);
+
+  const group: Group = { color, stones: [[x, y]], liberties: [] };
+  const seen = new Set([x + "," + y]);
+  for (let i = 0; i < group.stones.length; i++) {
+    for (const [nx, ny] of neighbours(...group.stones[i])) {
+      const key = nx + "," + ny;
+      if (seen.has(key)) continue;
+      if (inside(nx, ny) ? board[ny][nx] === null : openSide(nx, ny)) {
+        seen.add(key);
+        group.liberties.push([nx, ny]);
+      } else if (inside(nx, ny) && board[ny][nx] === color) {
+        seen.add(key);
+        group.stones.push([nx, ny]);
+      }
+    }
+  }
+  return group;
+}
+
+/**
+ * Place a stone and remove the opponent groups (or the own group, for
+ * suicide) left without liberties. Returns the removed stones.
+ **/
+export function playStone(board: Board, x: number, y: number, color: StoneColor, borders: DiagramBorders = CLOSED): Point[] {
+  const removed: Point[] = [];
+  const removeIfDead = (px: number, py: number) => {
+    const group = groupAt(board, px, py, borders);
+    if (group === null || group.liberties.length > 0) return;
+    group.stones.forEach(([gx, gy]) => (board[gy][gx] = null));
+    removed.push(...group.stones);
+  };
+
+  board[y][x] = color;
+  for (const [nx, ny] of neighbours(x, y)) {
+    const neighbour = board[ny]?.[nx] ?? null;
+    if (neighbour !== null && neighbour !== color) removeIfDead(nx, ny);
+  }
+  removeIfDead(x, y);
+  return removed;
+}
+
+/**
+ * Replay the moves of a diagram. Moves on occupied points are not played;
+ * suicides and ko retaken without a move elsewhere are played but reported.
+ **/
+export function replayDiagram(model: BoardModel): ReplayResult {
+  const board: Board = model.points.map((row) => row.map((point) => (point.move === null ? point.stone : null)));
+  const result: ReplayResult = { board, steps: [], captures: { B: 0, W: 0 }, diagnostics: [] };
+  const warn = (message: string, move: { line: number; column: number }) =>
+    result.diagnostics.push({ severity: "warning", message, line: move.line, column: move.column });
+
+  // moves of the title are played at the move or letter they refer to; passes have no move
+  const sequence: { number: number; move: DiagramMove | null }[] = model.moves.map((move) => ({ number: move.number, move }));
+  for (const note of model.metadata.moveNotes) {
+    const position = { line: 0, column: note.column };
+    if (note.at === null) {
+      sequence.push({ number: note.number, move: null });
+      continue;
+    }
+    const target = typeof note.at === "number" ? model.moves.find((move) => move.number === note.at) : findLabel(model, note.at);
+    if (!target) {
+      warn(`Move ${note.number} is played at ${note.at}, which is not in the diagram`, position);
+      continue;
+    }
+    sequence.push({ number: note.number, move: { number: note.number, color: note.color, x: target.x, y: target.y, ...position } });
+  }
+  sequence.sort((a, b) => a.number - b.number);
+
+  let ko: Point | null = null;  // point where a single stone was just captured in a ko
+  let previous = 0;
+  for (const { number, move } of sequence) {
+    if (number === previous) {
+      if (move) warn(`Move ${number} is played more than once`, move);
+      continue;
+    }
+    previous = number;
+    if (move === null) {
+      ko = null;
+      continue;
+    }
+    const { x, y, color } = move;
+    if (board[y][x] !== null) {
+      warn(`Move ${number} is played on an occupied point`, move);
+      continue;
+    }
+    if (ko && ko[0] === x && ko[1] === y) {
+      warn(`Move ${number} retakes the ko without playing elsewhere first`, move);
+    }
+    const captured = playStone(board, x, y, color, model.borders);
+    const suicide = captured.some(([cx, cy]) => cx === x && cy === y);
+    if (suicide) {
+      warn(`Move ${number} is a suicide`, move);
+      result.captures[color === "B" ? "W" : "B"] += captured.length;
+    } else {
+      result.captures[color] += captured.length;
+    }
+
+    // a single stone capturing a single stone, with that point as its only liberty, starts a ko
+    const group = groupAt(board, x, y, model.borders);
+    ko = !suicide && captured.length === 1 && group?.stones.length === 1 && group.liberties.length === 1
+      ? captured[0]
+      : null;
+    result.steps.push({ move, captured });
+  }
+  return result;
+}
+
+function neighbours(x: number, y: number): Point[] {
+  return [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+}
+
+function findLabel(model: BoardModel, label: string): { x: number; y: number } | undefined {
+  for (let y = 0; y < model.height; y++) {
+    const x = model.points[y].findIndex((point) => point.label === label);
+    if (x >= 0) return { x, y };
+  }
+  return undefined;
+}
@@ -0,0 +1,62 @@
+/**
+ * SM-2 scheduling of the problem reviews.
+ *
+ * scheduleReview() sets the next review of a problem after it is passed or
+ * failed. After each pass the interval grows by the ease of the problem,
+ * which goes down with each failure; a failure brings the problem back the
+ * next day. The records are plain data, kept in the plugin data by key
+ * (see review.ts).
+ **/
+
+export interface ReviewRecord {
+  repetitions: number;  // passes in a row
+  interval: number;     // days between the last review and the next one
+  ease: number;         // growth of the interval after a pass
+  due: number;          // time of the next review, at the start of its day
+  passed: boolean;      // result of the last review
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// SM-2 grades, from 0 (blackout) to 5 (perfect)
+const PASS_GRADE = 4;
+const FAIL_GRADE = 1;
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/** The record of a problem after a review, passed or failed at the time now. */
+export function scheduleReview(record: ReviewRecord | undefined, passed: boolean, now: number): ReviewRecord {
+  const previous = record ?? { repetitions: 0, interval: 0, ease: INITIAL_EASE, due: now, passed: false };
+  const grade = passed ? PASS_GRADE : FAIL_GRADE;
+  const repetitions = passed ? previous.repetitions + 1 : 0;
+  const interval = repetitions <= 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * previous.ease);
+  return {
+    repetitions,
+    interval,
+    ease: Math.max(MIN_EASE, previous.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+    due: startOfDay(now) + interval * DAY,
+    passed,
+  };
+}
+
+/** True if the problem is to be reviewed at the time now; new problems are. */
+export function isDue(record: ReviewRecord | undefined, now: number): boolean {
+  return !record || record.due <= now;
+}
+
+/** Move the records of the problems of a renamed note. Returns true if there were any. */
+export function renameReviews(reviews: Record<string, ReviewRecord>, oldPath: string, newPath: string): boolean {
+  let changed = false;
+  for (const key of Object.keys(reviews)) {
+    if (!key.startsWith(oldPath + "#")) continue;
+    reviews[newPath + key.slice(oldPath.length)] = reviews[key];
+    delete reviews[key];
+    changed = true;
+  }
+  return changed;
+}
@@ -0,0 +1,259 @@
+import { App, PluginSettingTab, Setting } from "obsidian";
+import { CoordinateStyle, COORDINATE_STYLES } from "./coordinates";
+import type ObsidianGoban from "./main";
+import { ColorPalette, GoDiagramOptions } from "./sltxt2svg";
+import { BOARD_TEXTURES, BoardTexture, STONE_STYLES, StoneStyle } from "./textures";
+
+export type CoordinatesDisplay = "diagram" | "always" | "never";
+
+type ColorSetting =
+  | "boardColor"
+  | "blackStoneColor"
+  | "whiteStoneColor"
+  | "stoneOutlineColor"
+  | "markupColor"
+  | "linkColor";
+
+export interface GobanSettings {
+  boardColor: string;
+  blackStoneColor: string;
+  whiteStoneColor: string;
+  stoneOutlineColor: string;
+  markupColor: string;
+  linkColor: string;
+  defaultWidth: number;
+  coordinates: CoordinatesDisplay;
+  coordinateStyle: CoordinateStyle;
+  stoneStyle: StoneStyle;
+  stoneShadows: boolean;
+  boardTexture: BoardTexture;
+  exportFolder: string;   // vault folder for exported images, "" is the root of the vault
+  pngScale: number;       // size of exported PNG images, relative to the diagram
+}
+
+// An empty color follows the theme (see the --goban-* variables in styles.css)
+export const DEFAULT_SETTINGS: GobanSettings = {
+  boardColor: "",
+  blackStoneColor: "",
+  whiteStoneColor: "",
+  stoneOutlineColor: "",
+  markupColor: "",
+  linkColor: "",
+  defaultWidth: 400,
+  coordinates: "diagram",
+  coordinateStyle: "western",
+  stoneStyle: "flat",
+  stoneShadows: false,
+  boardTexture: "plain",
+  exportFolder: "",
+  pngScale: 2,
+};
+
+// CSS variable of each palette color, see styles.css
+export const PALETTE_VARIABLES: Record<keyof ColorPalette, string> = {
+  goban: "--goban-board",
+  line: "--goban-line",
+  black: "--goban-black-stone",
+  white: "--goban-white-stone",
+  outline: "--goban-stone-outline",
+  markup: "--goban-markup",
+  link: "--goban-link",
+};
+
+// Palette color of each color setting
+const COLOR_SETTINGS: Record<ColorSetting, keyof ColorPalette> = {
+  boardColor: "goban",
+  blackStoneColor: "black",
+  whiteStoneColor: "white",
+  stoneOutlineColor: "outline",
+  markupColor: "markup",
+  linkColor: "link",
+};
+
+/**
+ * Translate the plugin settings into GoDiagram options.
+ **/
+export function diagramOptions(settings: GobanSettings): GoDiagramOptions {
+  const colors: Partial<ColorPalette> = {};
+  for (const key of Object.keys(COLOR_SETTINGS) as ColorSetting[]) {
+    if (settings[key]) colors[COLOR_SETTINGS[key]] = settings[key];
+  }
+  return {
+    width: settings.defaultWidth,
+    colors,
+    coordinates: settings.coordinates === "diagram" ? undefined : settings.coordinates === "always",
+    coordinateStyle: settings.coordinateStyle,
+    stoneStyle: settings.stoneStyle,
+    shadows: settings.stoneShadows,
+    boardTexture: settings.boardTexture,
+  };
+}
+
+/**
+ * CSS variables overriding the theme colors of a diagram.
+ * Colors following the theme map to an empty value, which removes the variable.
+ **/
+export function colorProperties(settings: GobanSettings): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const key of Object.keys(COLOR_SETTINGS) as ColorSetting[]) {
+    properties[PALETTE_VARIABLES[COLOR_SETTINGS[key]]] = settings[key];
+  }
+  return properties;
+}
+
+export class GobanSettingTab extends PluginSettingTab {
+  plugin: ObsidianGoban;
+
+  constructor(app: App, plugin: ObsidianGoban) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl)
+      .setName("Default diagram width")
+      .setDesc("Width of the rendered diagrams, in pixels.")
+      .addText((text) =>
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.defaultWidth))
+          .setValue(String(this.plugin.settings.defaultWidth))
+          .onChange(async (value) => {
+            const width = parseInt(value);
+            if (isNaN(width) || width <= 0) return;
+            this.plugin.settings.defaultWidth = width;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Coordinates")
+      .setDesc("Show the board coordinates when the diagram asks for them ($$c), on every diagram or never.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ diagram: "As in the diagram", always: "Always", never: "Never" })
+          .setValue(this.plugin.settings.coordinates)
+          .onChange(async (value) => {
+            this.plugin.settings.coordinates = value as CoordinatesDisplay;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Coordinate style")
+      .setDesc("Labels of the coordinates. Diagrams can choose their own with the coord-style option.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(COORDINATE_STYLES)
+          .setValue(this.plugin.settings.coordinateStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.coordinateStyle = value as CoordinateStyle;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Stone style")
+      .setDesc("Flat stones print best. Diagrams can choose their own with the stones option.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(STONE_STYLES)
+          .setValue(this.plugin.settings.stoneStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.stoneStyle = value as StoneStyle;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Stone shadows")
+      .setDesc("Draw a shadow under the stones.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.stoneShadows).onChange(async (value) => {
+          this.plugin.settings.stoneShadows = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Board texture")
+      .setDesc("Background of the board: plain, or with a wood grain over the board color.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(BOARD_TEXTURES)
+          .setValue(this.plugin.settings.boardTexture)
+          .onChange(async (value) => {
+            this.plugin.settings.boardTexture = value as BoardTexture;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Export folder")
+      .setDesc("Folder of the vault where diagrams saved from their context menu are stored. Leave empty for the root of the vault.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Attachments")
+          .setValue(this.plugin.settings.exportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("PNG scale")
+      .setDesc("Size of copied and saved PNG images, relative to the diagram.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ "1": "1x", "2": "2x", "3": "3x", "4": "4x" })
+          .setValue(String(this.plugin.settings.pngScale))
+          .onChange(async (value) => {
+            this.plugin.settings.pngScale = parseInt(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Colors")
+      .setDesc("By default the colors follow the theme. Use the reset button to follow the theme again.")
+      .setHeading();
+
+    const colors: [ColorSetting, string][] = [
+      ["boardColor", "Board"],
+      ["blackStoneColor", "Black stones"],
+      ["whiteStoneColor", "White stones"],
+      ["stoneOutlineColor", "Stone outlines"],
+      ["markupColor", "Markup"],
+      ["linkColor", "Link highlight"],
+    ];
+    for (const [key, name] of colors) {
+      new Setting(containerEl)
+        .setName(name)
+        .addColorPicker((picker) =>
+          picker
+            .setValue(this.plugin.settings[key] || this.themeColor(key))
+            .onChange(async (value) => {
+              this.plugin.settings[key] = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("reset")
+            .onClick(async () => {
+              this.plugin.settings[key] = DEFAULT_SETTINGS[key];
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    }
+  }
+
+  /** Current theme color of a setting, as defined by the --goban-* CSS variables. */
+  private themeColor(key: ColorSetting): string {
+    return getComputedStyle(activeDocument.body).getPropertyValue(PALETTE_VARIABLES[COLOR_SETTINGS[key]]).trim();
+  }
+}
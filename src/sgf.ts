@@ -0,0 +1,413 @@
+/**
+ * SGF import and export for Goban Viewer.
+ *
+ * An SGF game record is parsed into a tree of nodes, the main line is replayed
+ * up to the requested move and the resulting position is converted to
+ * Sensei's Library diagram format, so it can be rendered by GoDiagram like
+ * any other `goban` block.
+ *
+ * Supported properties:
+ *   SZ, GN              board size and title
+ *   AB, AW, AE          setup stones (compressed point lists are accepted)
+ *   B, W                moves (captures are removed from the board)
+ *   CR, SQ, TR, MA, LB  markup of the displayed node
+ *   C                   comment of the displayed node
+ *   TE, BM              good and bad moves of problems
+ *
+ * sgfSolution() reads the variations as the solution tree of a problem.
+ * diagramToSGF() goes the other way and exports a parsed diagram.
+ **/
+
+import { BoardModel, coordinateOrigin, isStarPoint, MarkType, StoneColor } from "./diagram";
+// types only: problem.ts draws the problems in Obsidian
+import type { SolutionNode } from "./problem";
+import { emptyBoard, playStone } from "./rules";
+
+const SGF_DEFAULT_BOARD_SIZE = 19;
+export const SGF_COORDINATES = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// Diagram symbol for markup on an empty point, a black stone and a white stone
+const MARKUP_SYMBOLS: Record<string, [string, string, string]> = {
+  CR: ["C", "B", "W"],
+  SQ: ["S", "#", "@"],
+  TR: ["T", "Y", "Q"],
+  MA: ["M", "Z", "P"],
+};
+
+// Comment of the last node of a correct line in a problem
+const CORRECT_COMMENT = /\b(correct|right)\b/i;
+
+// SGF markup property of each mark
+const SGF_MARKUP: Record<MarkType, string> = {
+  circle: "CR",
+  square: "SQ",
+  triangle: "TR",
+  cross: "MA",
+};
+
+export interface SGFNode {
+  properties: Record<string, string[]>;
+}
+
+export interface SGFTree {
+  nodes: SGFNode[];
+  variations: SGFTree[];
+}
+
+export interface SGFDiagramOptions {
+  move?: number;        // show the position after this move (default: last move of the main line)
+  numbers?: number;     // number the last N moves up to the displayed one (default: 0)
+  coordinates?: boolean;
+}
+
+export interface SGFDiagram {
+  diagram: string;      // the position in Sensei's Library diagram format
+  comment: string;      // comment of the displayed node, if any
+}
+
+export class SGFParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at character ${position})`);
+    this.name = "SGFParseError";
+  }
+}
+
+/**
+ * Parse the first game tree of an SGF collection.
+ **/
+export function parseSGF(text: string): SGFTree {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseValue = (): string => {
+    // text[pos] is "["
+    pos++;
+    let value = "";
+    while (pos < text.length && text[pos] !== "]") {
+      if (text[pos] === "\\") {
+        pos++;
+        // escaped line breaks are removed (soft line break)
+        if (text[pos] === "\n" || text[pos] === "\r") {
+          if (text[pos] === "\r" && text[pos + 1] === "\n") pos++;
+          pos++;
+          continue;
+        }
+      }
+      value += text[pos];
+      pos++;
+    }
+    if (pos >= text.length) {
+      throw new SGFParseError("Unterminated property value", pos);
+    }
+    pos++;
+    return value;
+  };
+
+  const parseNode = (): SGFNode => {
+    // text[pos] is ";"
+    pos++;
+    const properties: Record<string, string[]> = {};
+    skipWhitespace();
+    while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+      let identifier = "";
+      while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+        identifier += text[pos];
+        pos++;
+      }
+      // FF[3] allowed lowercase letters in identifiers (e.g. "AddBlack")
+      identifier = identifier.replace(/[a-z]/g, "");
+      skipWhitespace();
+      if (text[pos] !== "[") {
+        throw new SGFParseError(`Property ${identifier} has no value`, pos);
+      }
+      const values: string[] = [];
+      while (text[pos] === "[") {
+        values.push(parseValue());
+        skipWhitespace();
+      }
+      properties[identifier] = (properties[identifier] ?? []).concat(values);
+    }
+    return { properties };
+  };
+
+  const parseTree = (): SGFTree => {
+    // text[pos] is "("
+    pos++;
+    const tree: SGFTree = { nodes: [], variations: [] };
+    skipWhitespace();
+    while (text[pos] === ";") {
+      tree.nodes.push(parseNode());
+      skipWhitespace();
+    }
+    while (text[pos] === "(") {
+      tree.variations.push(parseTree());
+      skipWhitespace();
+    }
+    if (text[pos] !== ")") {
+      throw new SGFParseError("Expected ')'", pos);
+    }
+    pos++;
+    return tree;
+  };
+
+  pos = text.indexOf("(");
+  if (pos < 0) {
+    throw new SGFParseError("No game tree found", 0);
+  }
+  const tree = parseTree();
+  if (tree.nodes.length === 0) {
+    throw new SGFParseError("Game tree has no nodes", 0);
+  }
+  return tree;
+}
+
+/**
+ * Return the nodes of the main line (first variation at every branch).
+ **/
+export function mainLine(tree: SGFTree): SGFNode[] {
+  const nodes: SGFNode[] = [];
+  let current: SGFTree | undefined = tree;
+  while (current) {
+    nodes.push(...current.nodes);
+    current = current.variations[0];
+  }
+  return nodes;
+}
+
+/**
+ * Expand an SGF point or compressed point list ("aa:cc") into [x, y] pairs.
+ * Returns an empty list for passes and out-of-board points.
+ **/
+export function parsePoint(value: string, boardSize: number): [number, number][] {
+  const toXY = (p: string): [number, number] | null => {
+    if (p.length !== 2) return null;
+    const x = SGF_COORDINATES.indexOf(p[0]);
+    const y = SGF_COORDINATES.indexOf(p[1]);
+    if (x < 0 || y < 0 || x >= boardSize || y >= boardSize) return null;
+    return [x, y];
+  };
+
+  const [from, to] = value.split(":");
+  const start = toXY(from);
+  if (start === null) return [];
+  if (to === undefined) return [start];
+  const end = toXY(to);
+  if (end === null) return [start];
+
+  const points: [number, number][] = [];
+  for (let y = Math.min(start[1], end[1]); y <= Math.max(start[1], end[1]); y++) {
+    for (let x = Math.min(start[0], end[0]); x <= Math.max(start[0], end[0]); x++) {
+      points.push([x, y]);
+    }
+  }
+  return points;
+}
+
+function sgfBoardSize(tree: SGFTree): number {
+  const size = tree.nodes[0].properties.SZ;
+  const boardSize = size ? parseInt(size[0]) || SGF_DEFAULT_BOARD_SIZE : SGF_DEFAULT_BOARD_SIZE;
+  if (boardSize < 2 || boardSize > SGF_COORDINATES.length) {
+    throw new SGFParseError(`Unsupported board size ${boardSize}`, 0);
+  }
+  return boardSize;
+}
+
+/**
+ * Convert an SGF game tree to a Sensei's Library diagram showing the
+ * position after options.move, with the last options.numbers moves numbered.
+ **/
+export function sgfToDiagram(tree: SGFTree, options: SGFDiagramOptions = {}): SGFDiagram {
+  const nodes = mainLine(tree);
+  const root = nodes[0].properties;
+  const boardSize = sgfBoardSize(tree);
+
+  const board = emptyBoard(boardSize, boardSize);
+
+  const totalMoves = nodes.filter((n) => n.properties.B || n.properties.W).length;
+  const lastMove = Math.max(0, Math.min(options.move ?? totalMoves, totalMoves));
+  const firstNumbered = lastMove - Math.max(0, Math.min(options.numbers ?? 0, lastMove)) + 1;
+
+  // Moves of the numbered sequence, in order
+  const numbered: { color: StoneColor; point: [number, number] | null }[] = [];
+  let moveNumber = 0;
+  let shownNode = nodes[0];
+
+  for (const node of nodes) {
+    const props = node.properties;
+    const color: StoneColor | null = props.B ? "B" : props.W ? "W" : null;
+    if (color !== null && moveNumber === lastMove) break;
+
+    (props.AE ?? []).forEach((v) => parsePoint(v, boardSize).forEach(([x, y]) => (board[y][x] = null)));
+    (props.AB ?? []).forEach((v) => parsePoint(v, boardSize).forEach(([x, y]) => (board[y][x] = "B")));
+    (props.AW ?? []).forEach((v) => parsePoint(v, boardSize).forEach(([x, y]) => (board[y][x] = "W")));
+
+    if (color !== null) {
+      moveNumber++;
+      const point = parsePoint((props[color] ?? [""])[0], boardSize)[0] ?? null;
+      if (point) playStone(board, point[0], point[1], color);
+      if (moveNumber >= firstNumbered) numbered.push({ color, point });
+    }
+    shownNode = node;
+  }
+
+  // Symbols for every point, starting from the stones on the board
+  const cells: string[][] = board.map((row) => row.map((stone) => (stone === "B" ? "X" : stone === "W" ? "O" : "")));
+  const captions: string[] = [];
+  numbered.forEach((move, i) => {
+    if (!move.point) {
+      captions.push(`${i + 1} pass`);
+      return;
+    }
+    const [x, y] = move.point;
+    if (/^\d+$/.test(cells[y][x])) {
+      captions.push(`${i + 1} at ${cells[y][x]}`);
+    } else {
+      cells[y][x] = String(i + 1);
+    }
+  });
+
+  const shown = shownNode.properties;
+  for (const property in MARKUP_SYMBOLS) {
+    (shown[property] ?? []).forEach((v) =>
+      parsePoint(v, boardSize).forEach(([x, y]) => {
+        const [empty, black, white] = MARKUP_SYMBOLS[property];
+        if (cells[y][x] === "") cells[y][x] = empty;
+        else if (cells[y][x] === "X") cells[y][x] = black;
+        else if (cells[y][x] === "O") cells[y][x] = white;
+      })
+    );
+  }
+  (shown.LB ?? []).forEach((v) => {
+    const [point, label] = v.split(":");
+    const xy = parsePoint(point, boardSize)[0];
+    if (xy && label && /^[a-z]$/.test(label) && cells[xy[1]][xy[0]] === "") {
+      cells[xy[1]][xy[0]] = label;
+    }
+  });
+
+  const lines: string[] = [];
+  const firstColor = numbered.length > 0 ? numbered[0].color : "B";
+  let header = "$$" + firstColor + (options.coordinates ? "c" : "") + boardSize;
+  if (numbered.length > 0 && firstNumbered > 1) header += "m" + firstNumbered;
+  const title = [root.GN ? root.GN[0] : "", ...captions].filter((t) => t).join(", ");
+  lines.push(title ? header + " " + title : header);
+
+  const horizontalBorder = "$$ +" + "-".repeat(boardSize * 2 + 1) + "+";
+  lines.push(horizontalBorder);
+  for (let y = 0; y < boardSize; y++) {
+    const row = cells[y].map((cell, x) =>
+      cell !== "" ? cell : isStarPoint(x, y, boardSize) ? "," : "."
+    );
+    lines.push("$$ | " + row.join(" ") + " |");
+  }
+  lines.push(horizontalBorder);
+
+  return {
+    diagram: lines.join("\n"),
+    comment: shown.C ? shown.C[0].trim() : "",
+  };
+}
+
+/**
+ * The moves of the record and their variations, as the solution of a
+ * problem starting from the position before the first move (see problem.ts).
+ * A line is correct if its last node has TE[] or says so in its comment
+ * ("Correct", "Right"), wrong if it goes through a bad move (BM[]). When no
+ * line is marked correct, every line without a bad move is. A pass ends
+ * the line.
+ **/
+export function sgfSolution(tree: SGFTree): SolutionNode {
+  const boardSize = sgfBoardSize(tree);
+  const root: SolutionNode = { move: null, correct: false, comment: "", children: [] };
+  const marked = new Set<SolutionNode>();   // last nodes marked correct
+  const bad = new Set<SolutionNode>();
+
+  const addLine = (parent: SolutionNode, line: SGFTree) => {
+    let node = parent;
+    for (const { properties } of line.nodes) {
+      const color: StoneColor | null = properties.B ? "B" : properties.W ? "W" : null;
+      if (color === null) continue;
+      const point = parsePoint((properties[color] ?? [""])[0], boardSize)[0];
+      if (!point) return;
+      const child: SolutionNode = {
+        move: { color, x: point[0], y: point[1] },
+        correct: false,
+        comment: properties.C ? properties.C[0].trim() : "",
+        children: [],
+      };
+      if (properties.TE || CORRECT_COMMENT.test(child.comment)) marked.add(child);
+      if (properties.BM) bad.add(child);
+      node.children.push(child);
+      node = child;
+    }
+    line.variations.forEach((variation) => addLine(node, variation));
+  };
+  addLine(root, tree);
+
+  const settle = (node: SolutionNode, good: boolean): boolean => {
+    good = good && !bad.has(node);
+    const lines = node.children.map((child) => settle(child, good));
+    node.correct = node.children.length === 0 ? good && (marked.size === 0 || marked.has(node)) : lines.some((line) => line);
+    return node.correct;
+  };
+  settle(root, true);
+  return root;
+}
+
+/**
+ * Export a parsed diagram as SGF.
+ * Stones and markup become setup properties of the root node, numbered
+ * moves become one B[]/W[] node each, in numeric order.
+ * Partial diagrams are placed on the full board where their coordinates
+ * say (coordinateOrigin): the window of a region stays where it was cut from.
+ **/
+export function diagramToSGF(model: BoardModel): string {
+  const { boardSize, metadata } = model;
+  const origin = coordinateOrigin(model);
+  const colOffset = Math.max(0, origin.x);
+  const rowOffset = Math.max(0, boardSize - origin.y);
+  const toSGF = (x: number, y: number) => SGF_COORDINATES[x + colOffset] + SGF_COORDINATES[y + rowOffset];
+
+  const setup: Record<string, string[]> = { AB: [], AW: [], CR: [], SQ: [], TR: [], MA: [], LB: [] };
+  model.points.forEach((row, y) =>
+    row.forEach((point, x) => {
+      if (point.stone !== null && point.move === null) {
+        setup[point.stone === "B" ? "AB" : "AW"].push(toSGF(x, y));
+      }
+      if (point.mark !== null) {
+        setup[SGF_MARKUP[point.mark]].push(toSGF(x, y));
+      } else if (point.label !== null) {
+        setup.LB.push(toSGF(x, y) + ":" + point.label);
+      }
+    })
+  );
+
+  let root = "GM[1]FF[4]CA[UTF-8]SZ[" + boardSize + "]";
+  if (metadata.title) {
+    root += "GN[" + escapeSGFText(metadata.title) + "]";
+  }
+  if (model.moves.length > 0) {
+    root += "PL[" + metadata.firstColor + "]";
+  }
+  for (const property in setup) {
+    if (setup[property].length > 0) {
+      root += property + setup[property].map((value) => "[" + value + "]").join("");
+    }
+  }
+
+  let sgf = "(;" + root;
+  model.moves.forEach((move, i) => {
+    sgf += "\n;" + move.color + "[" + toSGF(move.x, move.y) + "]";
+    if (i === 0 && metadata.startMove !== 1) {
+      sgf += "MN[" + (metadata.startMove + move.number - 1) + "]";
+    }
+  });
+  return sgf + ")\n";
+}
+
+function escapeSGFText(text: string): string {
+  return text.replace(/[\\\]]/g, (m) => "\\" + m);
+}
@@ -25,6 +25,25 @@
     See demo function after the class definition on how to use it.
 **/
 
+import {
+  BoardModel,
+  BoardPoint,
+  CellPosition,
+  coordinateOrigin,
+  DiagramDiagnostic,
+  DiagramOverlay,
+  hasErrors,
+  linkAt,
+  MarkType,
+  parseDiagram,
+  splitTitle,
+} from "./diagram";
+import { columnLabel, CoordinateSide, CoordinateStyle, DEFAULT_COORDINATE_SIDES, rowLabel } from "./coordinates";
+import { diagramToSGF } from "./sgf";
+import { internalLinkpath } from "./links";
+import { addClass, setAttributes, SVGNode, svgNode, toSVGElement, toSVGString } from "./svg";
+import { BoardTexture, StoneStyle, stoneTextures, textureDefs, textureId, TextureOptions } from "./textures";
+
 /**
  * The syntax for Sensei Library ASCII diagrams:
  *
@@ -60,19 +79,33 @@
  *   W         white stone with circle
  *   #         black stone with square
  *   @         white stone with square
- *   Y         black stone with triangle (omitted [OTF])
- *   Q         white stone with triangle (appears as WS [OTF])
- *   Z         black stone with cross mark (X) (omitted [OTF])
- *   P         white stone with cross mark (X) (omitted [OTF])
+ *   Y         black stone with triangle
+ *   Q         white stone with triangle
+ *   Z         black stone with cross mark (X)
+ *   P         white stone with cross mark (X)
  *   C         circle on empty intersection
  *   S         square on empty intersection
- *   T         triangle on empty intersection (omitted [OTF])
- *   M         cross mark (X) on empty intersection (omitted [OTF])
+ *   T         triangle on empty intersection
+ *   M         cross mark (X) on empty intersection
  * a..z       letter on empty intersection
  *
  * The diagram may also contain links between any of the symbols
  * and an internal or external URL in standard wiki format,
- * i.e. [symbol|link]
+ * i.e. [symbol|link]. The link is a web address, or a note of the
+ * vault: [a|[[Note]]], [a|[[Note#Heading|alias]]] or [a|Note] (see links.ts).
+ * The anchor is a symbol of stones, marks or letters ([X|...], [a|...]),
+ * a move number of any length ([12|...]) or the coordinate of a single
+ * point ([Q16|...]), which wins over a link to its symbol. A title in
+ * quotes after the link is shown as its tooltip: [12|Note "The tesuji"].
+ *
+ * Arrows, lines and regions are given on their own lines, with
+ * coordinates in the diagram's coordinate system (columns A-T without I,
+ * rows counted from the bottom edge, as displayed with $$c):
+ *
+ *   {AR a1 b2}  arrow from a1 to b2
+ *   {LN a1 b2}  line from a1 to b2
+ *   {RE a1 b2}  outline of the rectangular region between a1 and b2
+ *   {HL a1 b2}  highlight of the rectangular region between a1 and b2
  *
  **/
 
@@ -86,6 +119,17 @@
  *   Options (all optional):
  *   - width: target width in pixels (default: 400)
  *   - fontSize: custom font size { h: number, w: number } (will be auto-calculated from width if not provided)
+ *   - theme: "light", "dark" or "print", a fixed color scheme instead of the Obsidian theme.
+ *     "print" draws flat black and white stones on a white board, without
+ *     shadows or texture, whatever the other options
+ *   - colors: colors overriding the palette of the theme, e.g. { goban: "#dcb35c" }
+ *   - coordinates: show (true) or hide (false) coordinates, regardless of the header
+ *   - caption: draw the title below the board (default: true)
+ *   - stoneStyle: "flat", "shaded" or "slate-shell" (default: flat)
+ *   - shadows: drop shadows under the stones (default: false)
+ *   - boardTexture: "plain" or "wood" (default: plain)
+ *   - playable: put a hit area on every point of the board, with the
+ *     data-x and data-y attributes of its cell, for clicks (see problem.ts)
  *
  *   Examples:
  *   - new GoDiagram(diagramString) // Uses default 400px width
@@ -95,16 +139,31 @@
  * - to parse the ASCII diagram and get the SVG image call diagram.createSVG()
  *   If parsing has failed, an SVG image with an error message will be returned.
  *   If parsing was successful, an SVG image of the diagram will be returned.
+ *   diagram.createSVGString() returns the same image as SVG markup and needs
+ *   no DOM (see svg.ts).
  *
  * - image size and width can be read from diagram.imageWidth and
  *   diagram.imageHeight
  *
- * - for the client side link map call diagram.getLinkmap()
+ * - for the client side link map call diagram.getLinkmap(): the square of
+ *   each linked intersection in the image, with its link
  *
  * - for the (escaped) title call diagram.getTitle()
  *
+ * - problems found while parsing (e.g. unsupported header flags) are listed
+ *   in diagram.diagnostics
+ *
+ * - the parsed diagram is diagram.model, a BoardModel (see diagram.ts).
+ *   GoDiagram only lays out and draws the model; use parseDiagram() directly
+ *   to read diagrams without a DOM.
+ *
  * - for the SGF file call diagram.createSGF()
  *
+ * - every element of the SVG image has a CSS class (goban-board, goban-line,
+ *   goban-stone-black, goban-markup, ...) so that it can be restyled by themes.
+ *   The colors of the palette are also written as presentation attributes,
+ *   which CSS rules override.
+ *
  * The basic unit of measure for the conversion from ASCII to SVG image
  * in the original sl2png.php codebase is fontsize, which represents
  * the height and width in pixels of a box containing a character of
@@ -119,7 +178,6 @@
  **/
 
 // Constants for magic numbers
-const DEFAULT_BOARD_SIZE = 19;
 const IMAGE_OFFSET = 2;
 const IMAGE_BORDER = 4;
 const COORDINATE_LEFT_OFFSET = 6;
@@ -129,6 +187,7 @@ const DEFAULT_TEXT_SIZE_RATIO = 0.5;
 const CIRCLE_INNER_RADIUS_OFFSET = 3;
 const CIRCLE_OUTER_RADIUS_OFFSET = 2;
 const SQUARE_HALF_SIZE = 7;
+const CROSS_SIZE_RATIO = 0.6;          // half-diagonal of the cross mark, relative to the circle mark
 const HOSHI_RADIUS = 3;
 const DEFAULT_DIAGRAM_WIDTH = 400;
 const COORDINATE_WIDTH_PADDING = 4;  // extra px added to image width for coordinate labels
@@ -137,57 +196,131 @@ const LINK_HIGHLIGHT_OPACITY = 0.28;  // transparency of linked intersections on
 const LINK_HIGHLIGHT_STROKE_OPACITY = 0.85;
 const LETTER_RADIUS_OFFSET = 4;      // extra radius when drawing a background behind letters
 const ERROR_WORDS_PER_LINE = 4;      // chunks used for wrapping the error message text
-const SVG_NS = "http://www.w3.org/2000/svg";
-
-type FontSize = { h: number; w: number };
+const CAPTION_TEXT_SIZE_RATIO = 0.55; // caption font size, relative to the cell height
+const CAPTION_MIN_TEXT_SIZE = 10;
+const CAPTION_LINE_SPACING = 1.4;
+const CAPTION_CHAR_WIDTH_RATIO = 0.55; // average character width, relative to the font size
+const LONG_MOVE_NUMBER_RATIO = 0.75;  // text size of move numbers with three or more digits
+const OVERLAY_STROKE_WIDTH = 2;
+const ARROW_HEAD_LENGTH = 8;
+const ARROW_HEAD_HALF_WIDTH = 4;
+const SHADOW_OFFSET_RATIO = 0.12;    // offset of the stone shadows, down and right, relative to the radius
+const SHADOW_RADIUS_RATIO = 1.05;
+
+// Number of images drawn, for texture ids unique to each image
+let drawnImages = 0;
+
+export type FontSize = { h: number; w: number };
+
+/** A linked intersection: its cell, its square in the image (viewBox units), its link and tooltip. */
+export interface LinkArea {
+  cell: CellPosition;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  link: string;
+  title: string;
+}
+type StoneClass = "black" | "white";
 type SVGResult = { element: SVGSVGElement; width: number | null; height: number | null };
 
 interface SVGComponents {
-  background: SVGRectElement;
-  coordinates: SVGTextElement[];
-  svgDiagram: SVGElement[];
+  defs: SVGNode[];
+  background: SVGNode[];
+  coordinates: SVGNode[];
+  caption: SVGNode[];
+  svgDiagram: SVGNode[];
+  overlays: SVGNode[];
+  lastMove: SVGNode[];
+  hitAreas: SVGNode[];
 }
 
-interface ColorPalette {
-  black: string;
-  white: string;
-  red: string;
-  goban: string;
-  link: string;
+export interface ColorPalette {
+  black: string;    // black stones
+  white: string;    // white stones
+  outline: string;  // ring around the stones
+  line: string;     // grid lines, hoshi, letters and coordinates
+  markup: string;   // circles, squares, triangles, crosses, arrows
+  goban: string;    // board background
+  link: string;     // highlight of linked intersections
+}
+
+export type DiagramTheme = "light" | "dark" | "print";
+
+export interface GoDiagramOptions {
+  fontSize?: FontSize;
+  width?: number;
+  theme?: DiagramTheme;   // fixed color scheme, instead of following the Obsidian theme
+  colors?: Partial<ColorPalette>;
+  coordinates?: boolean;  // overrides the "c" flag of the diagram header
+  coordinateSides?: CoordinateSide[];   // sides with coordinates (default: left and top)
+  coordinateStyle?: CoordinateStyle;    // labels of the coordinates (default: western)
+  caption?: boolean;      // draw the title and the move caption below the board (default: true)
+  lastMove?: CellPosition; // ring around the stone played last, e.g. during playback
+  stoneStyle?: StoneStyle;
+  shadows?: boolean;
+  boardTexture?: BoardTexture;
+  playable?: boolean;     // hit areas on the points, to play by clicking them
 }
 
 interface RenderContext {
-  svgDocument: Document;
   palette: ColorPalette;
-  evencolor: string;
-  oddcolor: string;
+  texturePrefix: string;  // prefix of the texture ids of the image
   markupClass: string;
   markupTextSize: number;
 }
 
+export const DEFAULT_COLOR_PALETTE: ColorPalette = {
+  black: "rgb(0, 0, 0)",
+  white: "rgb(255, 255, 255)",
+  outline: "rgb(0, 0, 0)",
+  line: "rgb(0, 0, 0)",
+  markup: "rgb(255, 55, 55)",
+  goban: "rgb(242, 176, 109)",
+  link: "rgb(230, 238, 75)",
+};
+
+// Same colors as the .theme-dark variables in styles.css
+export const DARK_COLOR_PALETTE: ColorPalette = {
+  black: "rgb(17, 17, 17)",
+  white: "rgb(230, 230, 230)",
+  outline: "rgb(17, 17, 17)",
+  line: "rgb(26, 26, 26)",
+  markup: "rgb(232, 74, 74)",
+  goban: "rgb(168, 121, 74)",
+  link: "rgb(200, 207, 74)",
+};
+
+// Black and white for printing, same as the .goban-theme-print variables
+export const PRINT_COLOR_PALETTE: ColorPalette = {
+  black: "rgb(0, 0, 0)",
+  white: "rgb(255, 255, 255)",
+  outline: "rgb(0, 0, 0)",
+  line: "rgb(0, 0, 0)",
+  markup: "rgb(0, 0, 0)",
+  goban: "rgb(255, 255, 255)",
+  link: "rgb(200, 200, 200)",
+};
+
 export class GoDiagram {
   fontSize: FontSize;
   inputDiagram: string;
-  diagram: string | null;
+  model: BoardModel;
   failureErrorMessage: string;
+  diagnostics: DiagramDiagnostic[];
   targetWidth: number | null;
-
-  // Auxiliary global variables.
-  private content: string[];
-  private firstColor!: string;
-  private coordinates!: boolean;
-  private boardSize!: number;
-  private title!: string;
-  private linkmap: Record<string, string> = {};
-  private startrow!: number;
-  private startcol!: number;
-  private endrow!: number;
-  private endcol!: number;
-  private rows!: (string | string[])[];
-  private topborder!: number;
-  private bottomborder!: number;
-  private leftborder!: number;
-  private rightborder!: number;
+  colors: Partial<ColorPalette>;
+  theme: DiagramTheme | null;
+
+  // Layout of the image, computed from the model
+  private coordinateSides: CoordinateSide[] = [];
+  private coordinateStyle: CoordinateStyle;
+  private showCaption: boolean;
+  private lastMove: CellPosition | null;
+  private textures: TextureOptions;
+  private playable: boolean;
+  private captionLines: string[] = [];
   private radius!: number;
   private imageWidth!: number;
   private imageHeight!: number;
@@ -195,212 +328,103 @@ export class GoDiagram {
   private offset_y!: number;
 
   constructor(
-    input_diagram: string,
-    options: {
-      fontSize?: FontSize;
-      width?: number;
-    } = {}
+    input_diagram: string | BoardModel,
+    options: GoDiagramOptions = {}
     /**
      * Constructor of class GoDiagram
-     * input_diagram is the diagram in SL's diagram format
+     * input_diagram is the diagram in SL's diagram format,
+     * or a diagram already parsed by parseDiagram()
      *
      * options.fontSize are the height and width in pixels of a box for
      * HTML latin2 standard fontsize 4. (optional, will be calculated from width if not provided)
      * options.width is the target width in pixels for the diagram (default: 400px)
+     * options.theme fixes the color scheme to "light", "dark" or "print"
+     * options.colors overrides some or all the colors of the palette
+     * options.coordinates shows or hides the coordinates regardless of the header
+     * options.coordinateSides and options.coordinateStyle place and label them
+     * options.caption draws the title and the move caption (default: true)
+     * options.lastMove marks the stone played last
+     * options.stoneStyle, options.shadows and options.boardTexture give the
+     * look of the stones and the board
+     * options.playable adds a hit area on every point, for clicks
      **/
   ) {
     this.targetWidth = options.width ?? DEFAULT_DIAGRAM_WIDTH;
+    this.colors = options.colors ?? {};
+    this.theme = options.theme ?? null;
+    this.showCaption = options.caption ?? true;
     // Only use default fontSize if fontSize is explicitly provided
     // Otherwise use placeholder to trigger auto-calculation based on width
     this.fontSize = options.fontSize ?? { h: 0, w: 0 };
-    this.inputDiagram = input_diagram;
-    this.diagram = null; //default value, overwritten if parsing succeeds
-    this.failureErrorMessage = "";
-    /** 
-       Parse input (this.inputDiagram) into internal representation. 
-       Sets this.diagram to null if invalid diagram found
-  
-       //values extracted from the title line
-       firstColor;	// 'B' or 'W'
-       coordinates;	// boolean
-       boardSize;	        // integer
-       title;		// raw text of title
-  
-       diagram;	        // raw copy of diagram contents (single string)
-       rows;		// normalized copy of _diagram (array of lines)
-       linkmap;      	// array of imagemap links (bracketlinks)
-       image;		// image object of PNG graphic
-  
-      // image properties
-       fontsize;		// dict (h,w), the base unit for dimensions, 
-                          //see note above.
-       radius;	        // based on fontsize, is the radius of the circle 
-                          // circumscribing the cell containing a stone,
-                          // markup, or an empty intersection. 
-       imageWidth;
-       imageHeight;
-       offset_x;
-       offset_y;
-  
-      // information about rows, columns
-       startrow;
-       startcol;
-       endrow;
-       endcol;
-  
-      // whether there is a border at the top, bottom, left, right (boolean)
-       topborder;
-       bottomborder;
-       leftborder;
-       rightborder;
-      **/
-
-    /**
-     * Parse diagram and calculate board dimensions
-     **/
-    const initBoardAndDimensions = () => {
-      // remove unnecessary chars, replace border chars
-      if (!this.diagram) return;
-      let diag = this.diagram.replace(/[-|+]/g, "%");
-      diag = diag.replace(/[\t\r$]/g, "");
-      diag = diag.replace(/\n+/g, " \n");
-
-      this.rows = [];
-      const tempRows = diag.split("\n");
-      for (let i = 0; i < tempRows.length; i++) {
-        // Check if the row appears to be in non-compact form (spaces),
-        // includes a number (/\d/.test), and is not a line/arrow definition line ({)
-        if (
-          tempRows[i].includes(" ") &&
-          /\d/.test(tempRows[i]) &&
-          !tempRows[i].includes("{")
-        )
-          this.rows.push(tempRows[i].split(" "));
-        else this.rows.push(tempRows[i].replace(/ /g, ""));
-      }
-
-      // find borders
-      this.startrow = 0;
-      this.startcol = 0;
-      this.endrow = this.rows.length - 1;
-
-      // top border
-      if (this.rows[0] && this.rows[0][1] == "%") {
-        this.startrow++;
-        this.topborder = 1;
-      } else this.topborder = 0;
-
-      // bottom border
-      if (this.rows[this.endrow][1] == "%") {
-        this.endrow--;
-        this.bottomborder = 1;
-      } else this.bottomborder = 0;
-
-      // left border
-      if (this.rows[this.startrow][0] == "%") {
-        this.startcol++;
-        this.leftborder = 1;
-      } else this.leftborder = 0;
-
-      // right border
-      this.endcol = this.rows[this.startrow].length - 2;
-      if (this.rows[this.endrow][this.endcol] == "%") {
-        this.endcol--;
-        this.rightborder = 1;
-      } else this.rightborder = 0;
-
-      /** Initialize image size.
-       * The goban is a matrix of rectangular cells, which can be empty,
-       * contain a stone, or a symbol. A cell's minimum size must accommodate
-       * a symbol in the font used, whose height and width are stored
-       * in an instance variable and default to h:16 and w:8 (equivalent to
-       * the px heights and width of a font size 2).
-       * The image's size adds room for two cells on all sides for the borders **/
-
-      // Calculate fontSize based on target width if it needs to be calculated
-      if (this.targetWidth && this.fontSize.h === 0) {
-        const numCols = 1 + this.endcol - this.startcol;
-        const targetDiameter = (this.targetWidth - IMAGE_BORDER) / numCols;
-        // Calculate fontSize from diameter (reverse of diameter = sqrt(h^2 + w^2))
-        // Using the ratio h:w = 2:1 from default fontSize
-        const h = Math.floor(targetDiameter / Math.sqrt(5)); // sqrt(2^2 + 1^2) = sqrt(5)
-        const w = Math.floor(h / 2);
-        this.fontSize = { h, w };
-      }
+    this.lastMove = options.lastMove ?? null;
+    this.playable = options.playable ?? false;
+    this.coordinateStyle = options.coordinateStyle ?? "western";
+    this.textures = this.theme === "print"
+      ? { stoneStyle: "flat", shadows: false, boardTexture: "plain" }
+      : { stoneStyle: options.stoneStyle ?? "flat", shadows: options.shadows ?? false, boardTexture: options.boardTexture ?? "plain" };
+    this.inputDiagram = typeof input_diagram === "string" ? input_diagram : "";
+    this.model = typeof input_diagram === "string" ? parseDiagram(input_diagram) : input_diagram;
+    this.diagnostics = this.model.diagnostics;
+    this.failureErrorMessage = this.diagnostics.find((d) => d.severity === "error")?.message ?? "";
+    if (hasErrors(this.model)) {
+      return;
+    }
 
-      const diameter = Math.floor(
+    /** Initialize image size.
+     * The goban is a matrix of rectangular cells, which can be empty,
+     * contain a stone, or a symbol. A cell's minimum size must accommodate
+     * a symbol in the font used, whose height and width are stored
+     * in an instance variable and default to h:16 and w:8 (equivalent to
+     * the px heights and width of a font size 2).
+     * The image's size adds room for two cells on all sides for the borders **/
+
+    const showCoordinates = options.coordinates ?? this.model.metadata.coordinates;
+    if (showCoordinates) this.coordinateSides = options.coordinateSides ?? DEFAULT_COORDINATE_SIDES;
+    const coordinateColumns = this.coordinateSides.filter((side) => side === "left" || side === "right").length;
+
+    // Calculate fontSize based on target width if it needs to be calculated
+    let diameter: number;
+    if (this.targetWidth && this.fontSize.h === 0) {
+      // The font has the ratio h:w = 2:1 of the default fontSize, and the
+      // diameter of its box diagonal (sqrt(h^2 + w^2)), so h = 2 * diameter / sqrt(5).
+      // A column of coordinates takes 2 * w + padding, that is about 2 / sqrt(5)
+      // of a diameter, and the whole image fits in the target width.
+      const room = this.targetWidth - IMAGE_BORDER - coordinateColumns * COORDINATE_WIDTH_PADDING;
+      diameter = Math.max(1, Math.floor(room / (this.model.width + (coordinateColumns * 2) / Math.sqrt(5))));
+      const h = Math.floor((2 * diameter) / Math.sqrt(5));
+      const w = Math.floor(h / 2);
+      this.fontSize = { h, w };
+    } else {
+      diameter = Math.floor(
         Math.sqrt(this.fontSize.h ** 2 + this.fontSize.w ** 2)
       );
-      this.radius = diameter / 2;
-      this.imageWidth = diameter * (1 + this.endcol - this.startcol) + IMAGE_BORDER;
-      this.imageHeight = diameter * (1 + this.endrow - this.startrow) + IMAGE_BORDER;
-      this.offset_x = IMAGE_OFFSET;
-      this.offset_y = IMAGE_OFFSET;
-
-      // adjust image size if coordinates are needed
-      if (this.coordinates) {
-        if (
-          (this.bottomborder || this.topborder) &&
-          (this.leftborder || this.rightborder)
-        ) {
-          const x = this.fontSize.w * 2 + COORDINATE_WIDTH_PADDING;
-          const y = this.fontSize.h + COORDINATE_HEIGHT_PADDING;
-          this.imageWidth += x;
-          this.offset_x += x;
-          this.imageHeight += y;
-          this.offset_y += y;
-        } else {
-          // cannot determine X *and* Y coordinates (missing borders)
-          this.coordinates = false;
-        }
-      }
-    };
-
-    this.content = this.inputDiagram.split("\n");
-    // Parse the parameters of the first line
-
-    let match = this.content[0].trim().match(/^\$\$([WB])?(c)?(d+)?(.*)/);
-    if (match === null) {
-      this.failureErrorMessage = "Parsing of ASCII diagram failed";
-      return;
     }
-    this.firstColor = match[1] == "W" ? "W" : "B";
-    this.coordinates = match[2] !== undefined;
-    this.boardSize = match[3] !== undefined ? parseInt(match[3]) : DEFAULT_BOARD_SIZE;
-    this.title = match[4].trim();
-
-    // fill diagram and linkmap variables
-    this.diagram = "";
-    this.linkmap = {}; // new Object because JS does not have distinct associative arrays
-
-    // Read all lines after first one
-    // Using "  " as regex delimiter instead of / because
-    // we are looking for possible URLs
-    for (const line of this.content.slice(1)) {
-      // Add NOT EMPTY line prefixed with $$ NOT containing bracketed links, discarding prefix
-      if ((match = line.trim().match(/^\$\$\s*([^[\s].*)/))) {
-        this.diagram += match[1] + "\n";
+
+    this.radius = diameter / 2;
+    this.imageWidth = diameter * this.model.width + IMAGE_BORDER;
+    this.imageHeight = diameter * this.model.height + IMAGE_BORDER;
+    this.offset_x = IMAGE_OFFSET;
+    this.offset_y = IMAGE_OFFSET;
+
+    // adjust image size if coordinates are needed, on each side showing them
+    if (showCoordinates) {
+      const x = this.fontSize.w * 2 + COORDINATE_WIDTH_PADDING;
+      const y = this.fontSize.h + COORDINATE_HEIGHT_PADDING;
+      if (this.coordinateSides.includes("left")) {
+        this.imageWidth += x;
+        this.offset_x += x;
       }
-      // Now looking for links and adding them to the map
-      if ((match = line.match(/^\$\$\s*\[(.*)\|(.*)\]/))) {
-        const anchor = match[1].trim();
-        if (anchor.match(/^[a-z0-9WB@#CS]$/)) {
-          this.linkmap[anchor] = match[2].trim();
-        }
+      if (this.coordinateSides.includes("right")) this.imageWidth += x;
+      if (this.coordinateSides.includes("top")) {
+        this.imageHeight += y;
+        this.offset_y += y;
       }
+      if (this.coordinateSides.includes("bottom")) this.imageHeight += y;
     }
 
-    initBoardAndDimensions();
-
-    if (
-      this.startrow > this.endrow || // check if diagram is at least
-      this.startcol > this.endcol || // 1x1
-      this.endrow < 0 ||
-      this.endcol < 0 ||
-      this.imageWidth < this.fontSize.w ||
-      this.imageHeight < this.fontSize.h
-    ) {
-      this.diagram = null;
+    if (this.showCaption) {
+      this.captionLines = this.buildCaption();
+      this.imageHeight += this.captionLines.length * this.captionLineHeight();
     }
   }
 
@@ -423,11 +447,107 @@ export class GoDiagram {
     });
   }
 
+  /** True if the diagram could not be parsed; see diagnostics for the reasons. */
+  hasErrors(): boolean {
+    return hasErrors(this.model);
+  }
+
+  /** The cell at a position of the image, in viewBox units, or null outside of the points. */
+  cellAt(imageX: number, imageY: number): CellPosition | null {
+    if (this.hasErrors()) return null;
+    const x = Math.floor((imageX - this.offset_x) / (this.radius * 2));
+    const y = Math.floor((imageY - this.offset_y) / (this.radius * 2));
+    return x >= 0 && y >= 0 && x < this.model.width && y < this.model.height ? { x, y } : null;
+  }
+
+  /** The linked intersections of the diagram, row by row. */
+  getLinkmap(): LinkArea[] {
+    const areas: LinkArea[] = [];
+    if (this.hasErrors()) return areas;
+    const diameter = this.radius * 2;
+    this.model.points.forEach((row, y) =>
+      row.forEach((_point, x) => {
+        const link = linkAt(this.model, { x, y });
+        if (!link) return;
+        const x1 = x * diameter + this.offset_x;
+        const y1 = y * diameter + this.offset_y;
+        areas.push({ cell: { x, y }, x1, y1, x2: x1 + diameter, y2: y1 + diameter, link: link.target, title: link.title });
+      })
+    );
+    return areas;
+  }
+
   getTitle(): string {
-    return this.htmlspecialchars(this.title);
+    return this.htmlspecialchars(this.model.metadata.title);
   }
 
-  createSvgErrorMessage(svgDocument: Document, errorClass: string): SVGGElement {
+  /** Real move number of a numbered stone, taking the m Num header into account. */
+  private displayMoveNumber(diagramNumber: number): string {
+    return String(this.model.metadata.startMove + diagramNumber - 1);
+  }
+
+  /** Split the title into the diagram title and the move caption.
+   *  Parts of the title like "4 at 1" or "7 at a (ko)" describe stones
+   *  played on occupied points; they are rewritten as "White 4 at 1".
+   *  Returns the caption wrapped to the image width.
+   **/
+  private buildCaption(): string[] {
+    const { title, firstColor } = this.model.metadata;
+    const { text: titleParts, moveNotes } = splitTitle(title, firstColor);
+    const moveParts = moveNotes.map((note) => {
+      const target = note.at === null
+        ? "pass"
+        : "at " + (typeof note.at === "number" ? this.displayMoveNumber(note.at) : note.at);
+      const colorName = note.color === "B" ? "Black" : "White";
+      return `${colorName} ${this.displayMoveNumber(note.number)} ${target}${note.comment}`;
+    });
+
+    const maxChars = Math.max(
+      1,
+      Math.floor((this.imageWidth - 2 * IMAGE_BORDER) / (this.captionTextSize() * CAPTION_CHAR_WIDTH_RATIO))
+    );
+    const lines: string[] = [];
+    [titleParts.join(", "), moveParts.join(", ")]
+      .filter((text) => text !== "")
+      .forEach((text) => {
+        let line = "";
+        for (const word of text.split(" ")) {
+          if (line && line.length + word.length + 1 > maxChars) {
+            lines.push(line);
+            line = word;
+          } else {
+            line = line ? line + " " + word : word;
+          }
+        }
+        lines.push(line);
+      });
+    return lines;
+  }
+
+  private captionTextSize(): number {
+    return Math.max(CAPTION_MIN_TEXT_SIZE, Math.floor(this.fontSize.h * CAPTION_TEXT_SIZE_RATIO));
+  }
+
+  private captionLineHeight(): number {
+    return this.captionTextSize() * CAPTION_LINE_SPACING;
+  }
+
+  private drawCaption(color: string): SVGNode[] {
+    const lineHeight = this.captionLineHeight();
+    const top = this.imageHeight - this.captionLines.length * lineHeight;
+    return this.captionLines.map((line, i) =>
+      this.createTextElement(
+        this.imageWidth / 2,
+        top + (i + 0.5) * lineHeight,
+        line,
+        "goban-caption goban-text",
+        this.captionTextSize(),
+        color
+      )
+    );
+  }
+
+  createSvgErrorMessage(errorClass: string): SVGNode {
     // Return an svgElement with the error message
     // poor man text wrapping, still unsupported in SVG 1.1
     const splitMessage = this.failureErrorMessage.split(/(.{1,15})/g);
@@ -436,29 +556,26 @@ export class GoDiagram {
     if (splitMessage.length % wPerL !== 0) {
       lines++;
     }
-    const svgError = svgDocument.createElementNS(SVG_NS, "g");
-    const rect = svgDocument.createElementNS(SVG_NS, "rect");
-    rect.setAttributeNS(null, "x", "0");
-    rect.setAttributeNS(null, "y", "0");
-    rect.setAttributeNS(null, "rx", "20");
-    rect.setAttributeNS(null, "ry", "20");
-    rect.setAttributeNS(null, "height", String(lines * 50));
-    rect.setAttributeNS(null, "fill", "red");
-    rect.setAttributeNS(null, "stroke", "black");
-    rect.setAttributeNS(null, "class", errorClass);
-    const text = svgDocument.createElementNS(SVG_NS, "text");
-    text.setAttributeNS(null, "x", "30");
-    text.setAttributeNS(null, "y", "30");
-    text.setAttributeNS(null, "font-size", "15");
-    text.setAttributeNS(null, "fill", "black");
+    const svgError = svgNode("g");
+    const rect = svgNode("rect", {
+      x: 0,
+      y: 0,
+      rx: 20,
+      ry: 20,
+      height: lines * 50,
+      fill: "red",
+      stroke: "black",
+      class: errorClass,
+    });
+    const text = svgNode("text", { x: 30, y: 30, "font-size": 15, fill: "black" });
 
     let message = "";
     for (let i = 0; i < lines; i++) {
       message += splitMessage.slice(i * wPerL, (i + 1) * wPerL).join("") + "\n";
     }
-    text.textContent = message;
-    svgError.appendChild(rect);
-    svgError.appendChild(text);
+    text.text = message;
+    svgError.children.push(rect);
+    svgError.children.push(text);
     return svgError;
   }
 
@@ -466,22 +583,36 @@ export class GoDiagram {
    *  returns an SVG object and the svg's width and height.
    **/
   createSVG(svgDocument: Document = activeDocument): SVGResult {
-    if (this.diagram === null) {
-      this.failureErrorMessage = "Parsing of ASCII diagram failed";
-      const element = this.createSVGRoot(svgDocument, DEFAULT_DIAGRAM_WIDTH, DEFAULT_DIAGRAM_WIDTH);
-      element.appendChild(this.createSvgErrorMessage(svgDocument, "errorClass"));
-      return { element, width: null, height: null };
+    const { node, width, height } = this.buildSVG();
+    return { element: toSVGElement(node, svgDocument) as SVGSVGElement, width, height };
+  }
+
+  /** Create the same image as createSVG(), as a standalone SVG document.
+   *  It needs no DOM, so it can be used outside of Obsidian.
+   **/
+  createSVGString(): string {
+    return toSVGString(this.buildSVG().node);
+  }
+
+  private buildSVG(): { node: SVGNode; width: number | null; height: number | null } {
+    if (this.hasErrors()) {
+      if (!this.failureErrorMessage) {
+        this.failureErrorMessage = "Parsing of ASCII diagram failed";
+      }
+      const node = this.createSVGRoot(DEFAULT_DIAGRAM_WIDTH, DEFAULT_DIAGRAM_WIDTH);
+      node.children.push(this.createSvgErrorMessage("errorClass"));
+      return { node, width: null, height: null };
     }
 
     const palette = this.buildColorPalette();
     const markupTextSize = Math.floor(this.fontSize.h * MARKUP_TEXT_SIZE_RATIO - 1);
     const defaultTextSize = this.fontSize.h * DEFAULT_TEXT_SIZE_RATIO;
 
+    const texturePrefix = "goban-" + ++drawnImages;
+    const defs = textureDefs(texturePrefix, this.textures);
     const ctx: RenderContext = {
-      svgDocument,
       palette,
-      evencolor: this.firstColor === "W" ? palette.black : palette.white,
-      oddcolor:  this.firstColor === "W" ? palette.white : palette.black,
+      texturePrefix,
       markupClass: "markup",
       markupTextSize,
     };
@@ -489,184 +620,157 @@ export class GoDiagram {
     const svgDiagram = this.renderGrid(ctx);
 
     const components: SVGComponents = {
-      background: this.renderBackground(svgDocument, palette),
-      coordinates: this.coordinates
-        ? this.drawCoordinates(svgDocument, palette.black, "coordClass", defaultTextSize)
+      defs: defs ? [defs] : [],
+      background: this.renderBackground(palette, texturePrefix),
+      coordinates: this.coordinateSides.length > 0
+        ? this.drawCoordinates(palette.line, "coordClass goban-text", defaultTextSize)
         : [],
+      caption: this.drawCaption(palette.line),
       svgDiagram,
+      overlays: this.model.overlays.map((overlay) => this.drawOverlay(overlay, palette)),
+      lastMove: this.lastMove ? [this.drawLastMove(this.lastMove, palette)] : [],
+      hitAreas: this.playable ? this.drawPlayableAreas() : [],
     };
 
     return {
-      element: this.assembleSVG(svgDocument, components),
+      node: this.assembleSVG(components),
       width: this.imageWidth,
       height: this.imageHeight,
     };
   }
 
   private createSVGRoot(
-    svgDocument: Document,
     width: number,
     height: number
-  ): SVGSVGElement {
-    const svg = svgDocument.createElementNS(SVG_NS, "svg");
-    svg.setAttributeNS(null, "width", String(width));
-    svg.setAttributeNS(null, "height", String(height));
-    return svg;
+  ): SVGNode {
+    return svgNode("svg", { width, height });
   }
 
-  private setSvgAttributes(
-    element: SVGElement,
-    attributes: Record<string, string | number>
-  ): void {
-    for (const key in attributes) {
-      element.setAttributeNS(null, key, String(attributes[key]));
-    }
+  /** Tag an element with a CSS class, so that themes can restyle it.
+   *  The presentation attributes are kept as a fallback for standalone SVG.
+   **/
+  private withClass(element: SVGNode, cssClass: string): SVGNode {
+    addClass(element, cssClass);
+    return element;
   }
 
   private buildColorPalette(): ColorPalette {
-    return {
-      black: "rgb(0, 0, 0)",
-      white: "rgb(255, 255, 255)",
-      red: "rgb(255, 55, 55)",
-      goban: "rgb(242, 176, 109)",
-      link: "rgb(230, 238, 75)",
-    };
+    const base = this.theme === "dark" ? DARK_COLOR_PALETTE : this.theme === "print" ? PRINT_COLOR_PALETTE : DEFAULT_COLOR_PALETTE;
+    return { ...base, ...this.colors };
   }
 
-  private renderBackground(svgDocument: Document, palette: ColorPalette): SVGRectElement {
-    const rect = svgDocument.createElementNS(SVG_NS, "rect");
-    this.setSvgAttributes(rect, {
-      x: 0,
-      y: 0,
-      width: this.imageWidth,
-      height: this.imageHeight,
-      fill: palette.goban,
-    });
-    return rect;
+  /** The board, and its grain over it. */
+  private renderBackground(palette: ColorPalette, texturePrefix: string): SVGNode[] {
+    const area = { x: 0, y: 0, width: this.imageWidth, height: this.imageHeight };
+    const background = [svgNode("rect", { ...area, fill: palette.goban, class: "goban-board" })];
+    if (this.textures.boardTexture === "wood") {
+      background.push(svgNode("rect", { ...area, fill: `url(#${textureId(texturePrefix, "grain")})`, class: "goban-board-grain" }));
+    }
+    return background;
   }
 
-  private renderGrid(ctx: RenderContext): SVGElement[] {
-    const svgDiagram: SVGElement[] = [];
+  private renderGrid(ctx: RenderContext): SVGNode[] {
+    const svgDiagram: SVGNode[] = [];
 
-    for (let ypos = this.startrow; ypos <= this.endrow; ypos++) {
-      const elementY =
-        (ypos - this.startrow) * (this.radius * 2) + this.radius + this.offset_y;
-      for (let xpos = this.startcol; xpos <= this.endcol; xpos++) {
-        const elementX =
-          (xpos - this.startcol) * (this.radius * 2) + this.radius + this.offset_x;
-        const svg = this.renderCell(xpos, ypos, elementX, elementY, ctx);
-        svgDiagram.push(...svg);
-      }
-    }
+    this.model.points.forEach((row, y) => {
+      const elementY = y * (this.radius * 2) + this.radius + this.offset_y;
+      row.forEach((point, x) => {
+        const elementX = x * (this.radius * 2) + this.radius + this.offset_x;
+        svgDiagram.push(...this.renderCell(point, { x, y }, elementX, elementY, ctx));
+      });
+    });
 
     return svgDiagram;
   }
 
   private renderCell(
-    xpos: number,
-    ypos: number,
+    point: BoardPoint,
+    cell: CellPosition,
     elementX: number,
     elementY: number,
     ctx: RenderContext
-  ): SVGElement[] {
-    const { svgDocument, palette, evencolor, oddcolor, markupClass, markupTextSize } = ctx;
-    const svg: SVGElement[] = [];
-    let markupColor = "";
-    let curchar = this.rows[ypos][xpos];
+  ): SVGNode[] {
+    const { palette, markupClass, markupTextSize } = ctx;
+    const svg: SVGNode[] = [];
 
     // SVG 2.0 href, see https://www.w3.org/TR/SVG2/linking.html#URLReference
-    const linkUrl = this.linkmap[curchar];
-
-    switch (curchar) {
-      // Black stone — plain (X) or with circle (B) or square (#)
-      case "X":
-      case "B":
-      case "#":
-        svg.push(this.drawStone(svgDocument, elementX, elementY, palette.black, palette.black));
-        if (curchar !== "X") {
-          svg.push(...this.markIntersection(svgDocument, elementX, elementY, this.radius, palette.red, curchar));
-        }
-        break;
-
-      // White stone — plain (O) or with circle (W) or square (@)
-      case "O":
-      case "W":
-      case "@":
-        svg.push(this.drawStone(svgDocument, elementX, elementY, palette.black, palette.white));
-        if (curchar !== "O") {
-          svg.push(...this.markIntersection(svgDocument, elementX, elementY, this.radius, palette.red, curchar));
-        }
-        break;
-
-      // Empty intersections — dot, hoshi, circle mark, square mark
-      case ".":
-      case ",":
-      case "C":
-      case "S": {
-        const type = this.getIntersectionType(xpos, ypos);
-        svg.push(...this.drawIntersection(svgDocument, elementX, elementY, palette.black, type));
-        if (curchar !== ".") {
-          const col = curchar === "," ? palette.black : palette.red;
-          svg.push(...this.markIntersection(svgDocument, elementX, elementY, this.radius, col, curchar));
-        }
-        break;
+    const diagramLink = linkAt(this.model, cell);
+
+    if (point.stone !== null) {
+      // Stones — plain, marked with a circle, square, triangle or cross, or numbered
+      const stone: StoneClass = point.stone === "B" ? "black" : "white";
+      svg.push(...this.drawStyledStone(elementX, elementY, stone, ctx));
+      if (point.mark !== null) {
+        svg.push(...this.markIntersection(elementX, elementY, this.radius, palette.markup, point.mark).map((e) => this.withClass(e, "goban-markup")));
       }
-
-      // Numbered moves and lettered intersections
-      default: {
-        if (parseInt(curchar) % 2 === 1) {
-          // odd-numbered move
-          svg.push(this.drawStone(svgDocument, elementX, elementY, palette.black, oddcolor));
-          markupColor = evencolor;
-        } else if (parseInt(curchar) % 2 === 0 || parseInt(curchar) === 0) {
-          // even-numbered move (0 is displayed as "10")
-          svg.push(this.drawStone(svgDocument, elementX, elementY, palette.black, evencolor));
-          markupColor = oddcolor;
-          if (curchar === "0") curchar = "10";
-        } else if (curchar >= "a" && curchar <= "z") {
-          const intersectionType = this.getIntersectionType(xpos, ypos);
-          svg.push(...this.drawIntersection(svgDocument, elementX, elementY, palette.black, intersectionType));
-          // Blank stone-circle hides the grid lines behind the letter
-          svg.push(this.drawStone(svgDocument, elementX, elementY, palette.goban, palette.goban));
-          svg.push(...this.markIntersection(svgDocument, elementX, elementY, this.radius + LETTER_RADIUS_OFFSET, palette.goban, "@"));
-          markupColor = palette.black;
-        } else {
-          break; // unknown character — skip
-        }
-        svg.push(this.createTextElement(svgDocument, elementX, elementY, curchar, markupClass, markupTextSize, markupColor));
-        break;
+      if (point.move !== null) {
+        const label = this.displayMoveNumber(point.move);
+        const textSize = label.length > 2 ? Math.floor(markupTextSize * LONG_MOVE_NUMBER_RATIO) : markupTextSize;
+        const textColor = stone === "black" ? palette.white : palette.black;
+        svg.push(this.createTextElement(elementX, elementY, label, markupClass + " goban-text-on-" + stone, textSize, textColor));
+      }
+    } else if (point.onBoard) {
+      // Empty intersections — dot, hoshi, marks and letters
+      svg.push(...this.drawIntersection(elementX, elementY, palette.line, point.edges).map((e) => this.withClass(e, "goban-line")));
+      if (point.hoshi) {
+        svg.push(...this.markIntersection(elementX, elementY, this.radius, palette.line, "hoshi").map((e) => this.withClass(e, "goban-hoshi")));
+      }
+      if (point.mark !== null) {
+        svg.push(...this.markIntersection(elementX, elementY, this.radius, palette.markup, point.mark).map((e) => this.withClass(e, "goban-markup")));
+      }
+      if (point.label !== null) {
+        // Blank stone-circle hides the grid lines behind the letter
+        svg.push(this.withClass(this.drawStone(elementX, elementY, palette.goban, palette.goban), "goban-board-cover"));
+        svg.push(...this.markIntersection(elementX, elementY, this.radius + LETTER_RADIUS_OFFSET, palette.goban, "square").map((e) => this.withClass(e, "goban-board-cover")));
+        svg.push(this.createTextElement(elementX, elementY, point.label, markupClass + " goban-text", markupTextSize, palette.line));
       }
     }
 
-    if (!linkUrl) {
+    if (!diagramLink) {
       return svg;
     }
 
-    const link = svgDocument.createElementNS(SVG_NS, "a");
-    link.setAttributeNS(null, "href", linkUrl);
-    link.setAttributeNS(null, "style", "text-decoration:none");
-    link.appendChild(this.drawLinkHighlight(svgDocument, elementX, elementY, palette));
-    svg.forEach((element) => link.appendChild(element));
-    link.appendChild(this.drawLinkHitArea(svgDocument, elementX, elementY));
+    // links to notes keep their link text, which the plugin opens in the vault
+    const linkpath = internalLinkpath(diagramLink.target);
+    const link = svgNode("a", { href: linkpath ?? diagramLink.target, style: "text-decoration:none" });
+    if (linkpath !== null) setAttributes(link, { "data-href": linkpath, class: "goban-internal-link" });
+    if (diagramLink.title) {
+      const title = svgNode("title");
+      title.text = diagramLink.title;
+      link.children.push(title);
+    }
+    link.children.push(this.drawLinkHighlight(elementX, elementY, palette));
+    svg.forEach((element) => link.children.push(element));
+    link.children.push(this.drawHitArea(elementX, elementY));
     return [link];
   }
 
-  private assembleSVG(svgDocument: Document, components: SVGComponents): SVGSVGElement {
-    const svg = this.createSVGRoot(svgDocument, this.imageWidth, this.imageHeight);
-    svg.appendChild(components.background);
-    components.svgDiagram.forEach((element) => svg.appendChild(element));
-    components.coordinates.forEach((element) => svg.appendChild(element));
+  /** The root element has the size of the image rounded up to tens of
+   *  pixels and a viewBox, so that the drawing scales to that size.
+   **/
+  private assembleSVG(components: SVGComponents): SVGNode {
+    const svg = this.createSVGRoot(roundNumberToTens(this.imageWidth), roundNumberToTens(this.imageHeight));
+    setAttributes(svg, { viewBox: `0 0 ${this.imageWidth} ${this.imageHeight}`, class: "goban-block" });
+    if (this.theme) {
+      addClass(svg, "goban-theme-" + this.theme);
+    }
+    components.defs.forEach((element) => svg.children.push(element));
+    components.background.forEach((element) => svg.children.push(element));
+    components.svgDiagram.forEach((element) => svg.children.push(element));
+    components.lastMove.forEach((element) => svg.children.push(element));
+    components.overlays.forEach((element) => svg.children.push(element));
+    components.coordinates.forEach((element) => svg.children.push(element));
+    components.caption.forEach((element) => svg.children.push(element));
+    components.hitAreas.forEach((element) => svg.children.push(element));
     return svg;
   }
 
   private drawLinkHighlight(
-    svgDocument: Document,
     x: number,
     y: number,
     palette: ColorPalette
-  ): SVGCircleElement {
-    const circle = svgDocument.createElementNS(SVG_NS, "circle");
-    this.setSvgAttributes(circle, {
+  ): SVGNode {
+    const circle = svgNode("circle", {
       cx: x,
       cy: y,
       r: this.radius + 2,
@@ -675,13 +779,14 @@ export class GoDiagram {
       "stroke-opacity": LINK_HIGHLIGHT_STROKE_OPACITY,
       fill: palette.link,
       "fill-opacity": LINK_HIGHLIGHT_OPACITY,
+      class: "goban-link",
     });
     return circle;
   }
 
-  private drawLinkHitArea(svgDocument: Document, x: number, y: number): SVGRectElement {
-    const rect = svgDocument.createElementNS(SVG_NS, "rect");
-    this.setSvgAttributes(rect, {
+  /** Transparent square over a cell, catching the clicks anywhere in it. */
+  private drawHitArea(x: number, y: number): SVGNode {
+    const rect = svgNode("rect", {
       x: x - this.radius,
       y: y - this.radius,
       width: this.radius * 2,
@@ -691,8 +796,21 @@ export class GoDiagram {
     return rect;
   }
 
+  /** Hit areas of the points of the board, on top of everything, telling which cell is clicked. */
+  private drawPlayableAreas(): SVGNode[] {
+    const areas: SVGNode[] = [];
+    this.model.points.forEach((row, y) =>
+      row.forEach((point, x) => {
+        if (!point.onBoard) return;
+        const area = this.drawHitArea(x * this.radius * 2 + this.radius + this.offset_x, y * this.radius * 2 + this.radius + this.offset_y);
+        setAttributes(area, { "data-x": x, "data-y": y, class: "goban-hit-area" });
+        areas.push(area);
+      })
+    );
+    return areas;
+  }
+
   drawStone(
-    svgDocument: Document,
     x: number,
     y: number,
     colorRing: string,
@@ -701,9 +819,8 @@ export class GoDiagram {
      * x and y are the coords of the center of the diagram's cell
      * colorRing, colorInside are stone colors (edge and body, resp.)
      **/
-  ): SVGCircleElement {
-    const circle = svgDocument.createElementNS(SVG_NS, "circle");
-    this.setSvgAttributes(circle, {
+  ): SVGNode {
+    const circle = svgNode("circle", {
       cx: x,
       cy: y,
       r: this.radius - 1,
@@ -713,26 +830,48 @@ export class GoDiagram {
     return circle;
   }
 
+  /** A stone in the colors of the palette, with its shadow and the textures of the stone style. */
+  private drawStyledStone(x: number, y: number, stone: StoneClass, ctx: RenderContext): SVGNode[] {
+    const { palette, texturePrefix } = ctx;
+    const svg: SVGNode[] = [];
+    if (this.textures.shadows) {
+      const offset = this.radius * SHADOW_OFFSET_RATIO;
+      svg.push(svgNode("circle", {
+        cx: x + offset,
+        cy: y + offset,
+        r: (this.radius - 1) * SHADOW_RADIUS_RATIO,
+        fill: `url(#${textureId(texturePrefix, "shadow")})`,
+        class: "goban-stone-shadow",
+      }));
+    }
+    svg.push(this.withClass(this.drawStone(x, y, palette.outline, palette[stone]), "goban-stone-" + stone));
+    for (const texture of stoneTextures(this.textures.stoneStyle, stone)) {
+      svg.push(svgNode("circle", {
+        cx: x,
+        cy: y,
+        r: this.radius - 1,
+        fill: `url(#${textureId(texturePrefix, texture)})`,
+        class: "goban-stone-texture",
+      }));
+    }
+    return svg;
+  }
+
   markIntersection(
-    svgDocument: Document,
     x: number,
     y: number,
     radius: number,
     color: string,
-    type: string
+    type: MarkType | "hoshi"
     /** Draws board markup and hoshi marks.
      * x and y are the coords of the center of the diagram's cell
-     * type is one of W,B,C for circle or S,@,# for square
      **/
-  ): SVGElement[] {
-    const intersectionElements: SVGElement[] = [];
+  ): SVGNode[] {
+    const intersectionElements: SVGNode[] = [];
     switch (type) {
-      case "W":
-      case "B":
-      case "C":
+      case "circle":
         [CIRCLE_INNER_RADIUS_OFFSET, CIRCLE_OUTER_RADIUS_OFFSET].forEach((offset) => {
-          const circle = svgDocument.createElementNS(SVG_NS, "circle");
-          this.setSvgAttributes(circle, {
+          const circle = svgNode("circle", {
             cx: x,
             cy: y,
             r: radius - offset,
@@ -743,12 +882,9 @@ export class GoDiagram {
         });
         break;
 
-      case "S":
-      case "@":
-      case "#":
+      case "square":
         {
-          const rect = svgDocument.createElementNS(SVG_NS, "rect");
-          this.setSvgAttributes(rect, {
+          const rect = svgNode("rect", {
             x: x - radius / 2 + 1,
             y: y - radius / 2 + 1,
             width: SQUARE_HALF_SIZE,
@@ -760,10 +896,41 @@ export class GoDiagram {
         }
         break;
 
-      case ",":
+      case "triangle":
         {
-          const circle = svgDocument.createElementNS(SVG_NS, "circle");
-          this.setSvgAttributes(circle, {
+          // equilateral triangle inscribed in the inner circle mark
+          const r = radius - CIRCLE_INNER_RADIUS_OFFSET;
+          const points = [90, 210, 330]
+            .map((angle) => (angle * Math.PI) / 180)
+            .map((angle) => `${x + r * Math.cos(angle)},${y - r * Math.sin(angle)}`);
+          const polygon = svgNode("polygon", {
+            points: points.join(" "),
+            stroke: color,
+            fill: "none",
+          });
+          intersectionElements.push(polygon);
+        }
+        break;
+
+      case "cross":
+        {
+          const d = (radius - CIRCLE_INNER_RADIUS_OFFSET) * CROSS_SIZE_RATIO;
+          [[-d, -d, d, d], [-d, d, d, -d]].forEach(([x1, y1, x2, y2]) => {
+            const line = svgNode("line", {
+              x1: x + x1,
+              y1: y + y1,
+              x2: x + x2,
+              y2: y + y2,
+              stroke: color,
+            });
+            intersectionElements.push(line);
+          });
+        }
+        break;
+
+      case "hoshi":
+        {
+          const circle = svgNode("circle", {
             cx: x,
             cy: y,
             r: HOSHI_RADIUS,
@@ -776,32 +943,7 @@ export class GoDiagram {
     return intersectionElements;
   }
 
-  getIntersectionType(
-    x: number,
-    y: number
-    /** Check if the intersection is on an edge or in a corner
-     * Returns one of these values, or their combination (for corners):
-     * U(pper), L(eft), R(ight), B(ottom)
-     **/
-  ): string {
-    let type = "";
-    if (this.rows[y - 1][x] == "%") {
-      type = "U";
-    } // Upper row
-    if (this.rows[y + 1][x] == "%") {
-      type += "B";
-    } // Bottom row
-    if (this.rows[y][x - 1] == "%") {
-      type += "L";
-    } // Left column
-    if (this.rows[y][x + 1] == "%") {
-      type += "R";
-    } // Right column
-    return type;
-  }
-
   drawIntersection(
-    svgDocument: Document,
     x: number,
     y: number,
     color: string,
@@ -810,11 +952,10 @@ export class GoDiagram {
      * type can be 'U', 'L', 'R', 'B', 'UL', 'BL', 'UR', 'BR'
      * an empty type represents a middle (non-edge) intersection.
      **/
-  ): SVGLineElement[] {
-    const intersectionElements: SVGLineElement[] = [];
+  ): SVGNode[] {
+    const intersectionElements: SVGNode[] = [];
     const drawLine = (x1: number, y1: number, x2: number, y2: number) => {
-      const line = svgDocument.createElementNS(SVG_NS, "line");
-      this.setSvgAttributes(line, { x1, y1, x2, y2, stroke: color });
+      const line = svgNode("line", { x1, y1, x2, y2, stroke: color });
       intersectionElements.push(line);
     };
 
@@ -833,69 +974,129 @@ export class GoDiagram {
     return intersectionElements;
   }
 
+  private drawOverlay(
+    overlay: DiagramOverlay,
+    palette: ColorPalette
+    /** Arrows and lines connect the centers of two cells,
+     * regions cover all the cells between the two corners.
+     **/
+  ): SVGNode {
+    const center = (cell: CellPosition) => ({
+      x: cell.x * this.radius * 2 + this.radius + this.offset_x,
+      y: cell.y * this.radius * 2 + this.radius + this.offset_y,
+    });
+    const from = center(overlay.from);
+    const to = center(overlay.to);
+
+    if (overlay.type === "RE" || overlay.type === "HL") {
+      const rect = svgNode("rect", {
+        x: Math.min(from.x, to.x) - this.radius,
+        y: Math.min(from.y, to.y) - this.radius,
+        width: Math.abs(to.x - from.x) + this.radius * 2,
+        height: Math.abs(to.y - from.y) + this.radius * 2,
+      });
+      if (overlay.type === "RE") {
+        setAttributes(rect, { fill: "none", stroke: palette.markup, "stroke-width": OVERLAY_STROKE_WIDTH, class: "goban-markup" });
+      } else {
+        setAttributes(rect, { fill: palette.link, "fill-opacity": LINK_HIGHLIGHT_OPACITY, class: "goban-highlight" });
+      }
+      return rect;
+    }
+
+    const group = svgNode("g");
+    const line = svgNode("line", {
+      x1: from.x,
+      y1: from.y,
+      x2: to.x,
+      y2: to.y,
+      stroke: palette.markup,
+      "stroke-width": OVERLAY_STROKE_WIDTH,
+      "stroke-linecap": "round",
+      class: "goban-markup",
+    });
+    group.children.push(line);
+
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (overlay.type === "AR" && length > 0) {
+      // unit vector along the arrow and its normal
+      const ux = (to.x - from.x) / length;
+      const uy = (to.y - from.y) / length;
+      const baseX = to.x - ux * ARROW_HEAD_LENGTH;
+      const baseY = to.y - uy * ARROW_HEAD_LENGTH;
+      const head = svgNode("polygon", {
+        points: [
+          `${to.x},${to.y}`,
+          `${baseX - uy * ARROW_HEAD_HALF_WIDTH},${baseY + ux * ARROW_HEAD_HALF_WIDTH}`,
+          `${baseX + uy * ARROW_HEAD_HALF_WIDTH},${baseY - ux * ARROW_HEAD_HALF_WIDTH}`,
+        ].join(" "),
+        fill: palette.markup,
+        class: "goban-markup-fill",
+      });
+      group.children.push(head);
+    }
+    return group;
+  }
+
+  /** Ring around the stone played last. */
+  private drawLastMove(cell: CellPosition, palette: ColorPalette): SVGNode {
+    return svgNode("circle", {
+      cx: cell.x * this.radius * 2 + this.radius + this.offset_x,
+      cy: cell.y * this.radius * 2 + this.radius + this.offset_y,
+      r: this.radius,
+      fill: "none",
+      stroke: palette.markup,
+      "stroke-width": OVERLAY_STROKE_WIDTH,
+      class: "goban-last-move",
+    });
+  }
+
   drawCoordinates(
-    svgDocument: Document,
     color: string,
     coordClass: string,
     SVGTextSize: number // Returns one or more svg elements with the Goban coordinates
-  ): SVGTextElement[] {
-    const coordChars = "ABCDEFGHJKLMNOPQRSTUVWXYZabcdefghjklmnopqrstuvwxyz123456789";
-    const coordinates: SVGTextElement[] = [];
-
-    let coordY = this.bottomborder
-      ? this.endrow - this.startrow + 1
-      : this.topborder
-        ? this.boardSize
-        : 0;
-
-    let coordX = this.leftborder
-      ? 0
-      : this.rightborder
-        ? Math.max(0, this.boardSize - this.endcol - 1)
-        : 0;
-
-    // coordinate calculations according to offsets and sizes
-    // Align with grid intersections using the same formula as the main drawing loop
-
-    // Offset from left border
-    const leftX = COORDINATE_LEFT_OFFSET + this.fontSize.w;
-    // Start at the same Y position as the first grid intersection
-    let img_y = this.radius + this.offset_y;
-
-    for (let y = 0; y <= this.endrow - this.startrow; y++) {
-      coordinates.push(
-        this.createTextElement(svgDocument, leftX, img_y, coordY.toString(), coordClass, SVGTextSize, color)
-      );
-      img_y += this.radius * 2;
-      coordY--;
+  ): SVGNode[] {
+    const coordinates: SVGNode[] = [];
+    const origin = coordinateOrigin(this.model);
+    const { boardSize, width, height } = this.model;
+    const diameter = this.radius * 2;
+    const sides = this.coordinateSides;
+
+    // Row labels, on the same Y position as the grid intersections
+    // Left labels are offset from the left border, right labels mirror them
+    const rowX: number[] = [];
+    if (sides.includes("left")) rowX.push(COORDINATE_LEFT_OFFSET + this.fontSize.w);
+    if (sides.includes("right")) rowX.push(this.offset_x + width * diameter + this.fontSize.w);
+    for (let y = 0; y < height; y++) {
+      const label = rowLabel(this.coordinateStyle, origin.y - y, boardSize);
+      const imgY = y * diameter + this.radius + this.offset_y;
+      rowX.forEach((x) => coordinates.push(this.createTextElement(x, imgY, label, coordClass, SVGTextSize, color)));
     }
 
-    // Offset from top of image
-    const topY = COORDINATE_TOP_OFFSET;
-    // Start at the same X position as the first grid intersection
-    let img_x = this.radius + this.offset_x;
-
-    for (let x = 0; x <= this.endcol - this.startcol; x++) {
-      coordinates.push(
-        this.createTextElement(svgDocument, img_x, topY, coordChars[coordX], coordClass, SVGTextSize, color)
-      );
-      img_x += this.radius * 2;
-      coordX++;
+    // Column labels, on the same X position as the grid intersections
+    // Top labels are offset from the top of the image, bottom labels are centered below the grid
+    const columnY: number[] = [];
+    if (sides.includes("top")) columnY.push(COORDINATE_TOP_OFFSET);
+    if (sides.includes("bottom")) {
+      const band = this.fontSize.h + COORDINATE_HEIGHT_PADDING;
+      columnY.push(this.offset_y + height * diameter + IMAGE_BORDER - IMAGE_OFFSET + band / 2);
+    }
+    for (let x = 0; x < width; x++) {
+      const label = columnLabel(this.coordinateStyle, origin.x + x, boardSize);
+      const imgX = x * diameter + this.radius + this.offset_x;
+      columnY.forEach((y) => coordinates.push(this.createTextElement(imgX, y, label, coordClass, SVGTextSize, color)));
     }
     return coordinates;
   }
 
   private createTextElement(
-    svgDocument: Document,
     x: number,
     y: number,
     value: string,
     cssClass: string,
     fontSize: number,
     color: string
-  ): SVGTextElement {
-    const text = svgDocument.createElementNS(SVG_NS, "text");
-    this.setSvgAttributes(text, {
+  ): SVGNode {
+    const text = svgNode("text", {
       x,
       y,
       dy: "0.14em",
@@ -906,13 +1107,18 @@ export class GoDiagram {
       "dominant-baseline": "middle",
       "alignment-baseline": "middle",
     });
-    text.textContent = value;
+    text.text = value;
     return text;
   }
 
-  createSGF(): string /** Creates SGF based on ASCII diagram and title //FIX ME: STILL TO DO
-   * returns SGF as string or FALSE (if board not a square)
-   **/ {
-    return "";
+  /** Creates SGF based on ASCII diagram and title, see diagramToSGF()
+   *  returns SGF as string or an empty string (if parsing failed)
+   **/
+  createSGF(): string {
+    return this.hasErrors() ? "" : diagramToSGF(this.model);
   }
 }
+
+function roundNumberToTens(num: number): number {
+  return Math.ceil(num / 10) * 10;
+}
@@ -0,0 +1,73 @@
+/**
+ * A minimal SVG element tree.
+ *
+ * GoDiagram draws diagrams as SVGNode trees, which are turned into DOM
+ * elements inside Obsidian (toSVGElement) or serialized to a standalone
+ * SVG document without any DOM (toSVGString), e.g. by the goban-render
+ * command line tool. Both come from the same tree, so they look the same.
+ **/
+
+export const SVG_NS = "http://www.w3.org/2000/svg";
+
+export interface SVGNode {
+  tag: string;
+  attributes: Record<string, string>;
+  children: SVGNode[];
+  text?: string;
+}
+
+export function svgNode(tag: string, attributes: Record<string, string | number> = {}): SVGNode {
+  const node: SVGNode = { tag, attributes: {}, children: [] };
+  setAttributes(node, attributes);
+  return node;
+}
+
+export function setAttributes(node: SVGNode, attributes: Record<string, string | number>): void {
+  for (const key in attributes) {
+    node.attributes[key] = String(attributes[key]);
+  }
+}
+
+/** Add a CSS class to the class attribute of a node. */
+export function addClass(node: SVGNode, cssClass: string): void {
+  const classes = (node.attributes.class ?? "").split(" ").filter((c) => c !== "");
+  if (!classes.includes(cssClass)) classes.push(cssClass);
+  node.attributes.class = classes.join(" ");
+}
+
+export function toSVGElement(node: SVGNode, svgDocument: Document): SVGElement {
+  const element = svgDocument.createElementNS(SVG_NS, node.tag);
+  for (const key in node.attributes) {
+    element.setAttributeNS(null, key, node.attributes[key]);
+  }
+  if (node.text !== undefined) {
+    element.textContent = node.text;
+  }
+  node.children.forEach((child) => element.appendChild(toSVGElement(child, svgDocument)));
+  return element;
+}
+
+/** Serialize a tree to SVG markup. The root gets the SVG namespace,
+ *  so that the result can be saved as a standalone .svg file.
+ **/
+export function toSVGString(node: SVGNode): string {
+  const root: SVGNode = node.attributes.xmlns ? node : { ...node, attributes: { xmlns: SVG_NS, ...node.attributes } };
+  return serialize(root);
+}
+
+function serialize(node: SVGNode): string {
+  let markup = "<" + node.tag;
+  for (const key in node.attributes) {
+    markup += ` ${key}="${escapeXML(node.attributes[key])}"`;
+  }
+  if (node.text === undefined && node.children.length === 0) {
+    return markup + "/>";
+  }
+  markup += ">" + escapeXML(node.text ?? "");
+  node.children.forEach((child) => (markup += serialize(child)));
+  return markup + "</" + node.tag + ">";
+}
+
+function escapeXML(text: string): string {
+  return text.replace(/[&<>"]/g, (c) => (c === "&" ? "&amp;" : c === "<" ? "&lt;" : c === ">" ? "&gt;" : "&quot;"));
+}
@@ -0,0 +1,116 @@
+/**
+ * Empty diagrams to start from.
+ *
+ * diagramTemplate() writes an empty board, or one of its corners or sides,
+ * with the borders and the hoshi at their place and a header giving the
+ * first player, the coordinates flag and the board size. The "Insert new
+ * goban diagram" command asks for these with InsertDiagramModal.
+ **/
+
+import { App, Modal, Setting } from "obsidian";
+import { isStarPoint, StoneColor } from "./diagram";
+
+export type BoardRegion =
+  | "full"
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right"
+  | "top"
+  | "bottom"
+  | "left"
+  | "right";
+
+export interface TemplateOptions {
+  size: number;
+  region: BoardRegion;
+  firstColor: StoneColor;
+}
+
+export const TEMPLATE_SIZES = [9, 13, 19];
+
+const REGION_NAMES: Record<BoardRegion, string> = {
+  full: "Full board",
+  "top-left": "Upper left corner",
+  "top-right": "Upper right corner",
+  "bottom-left": "Lower left corner",
+  "bottom-right": "Lower right corner",
+  top: "Upper side",
+  bottom: "Lower side",
+  left: "Left side",
+  right: "Right side",
+};
+
+/** An empty diagram of the board or of one of its regions, with its header. */
+export function diagramTemplate({ size, region, firstColor }: TemplateOptions): string {
+  // a corner or a side spans a bit more than half of the board
+  const depth = Math.min(size, Math.ceil(size / 2) + 1);
+  const top = region === "full" || region.startsWith("top") || region === "left" || region === "right";
+  const bottom = region === "full" || region.startsWith("bottom") || region === "left" || region === "right";
+  const left = region === "full" || region.endsWith("left") || region === "top" || region === "bottom";
+  const right = region === "full" || region.endsWith("right") || region === "top" || region === "bottom";
+  const width = left && right ? size : depth;
+  const height = top && bottom ? size : depth;
+  const firstColumn = left ? 0 : size - width;
+  const firstRow = top ? 0 : size - height;
+
+  const lines = [`$$${firstColor}c${size}`];
+  const border = (left ? "+-" : "") + "-".repeat(2 * width - 1) + (right ? "-+" : "");
+  if (top) lines.push("$$ " + border);
+  for (let y = 0; y < height; y++) {
+    const points: string[] = [];
+    for (let x = 0; x < width; x++) {
+      points.push(isStarPoint(firstColumn + x, firstRow + y, size) ? "," : ".");
+    }
+    lines.push("$$ " + (left ? "| " : "") + points.join(" ") + (right ? " |" : ""));
+  }
+  if (bottom) lines.push("$$ " + border);
+  return lines.join("\n");
+}
+
+/** Asks for the size, the region and the first player of a new diagram. */
+export class InsertDiagramModal extends Modal {
+  private options: TemplateOptions = { size: 19, region: "full", firstColor: "B" };
+
+  constructor(
+    app: App,
+    private onInsert: (diagram: string) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText("Insert new goban diagram");
+    const { contentEl } = this;
+
+    new Setting(contentEl).setName("Board size").addDropdown((dropdown) => {
+      for (const size of TEMPLATE_SIZES) dropdown.addOption(String(size), `${size}x${size}`);
+      dropdown.setValue(String(this.options.size)).onChange((value) => (this.options.size = parseInt(value)));
+    });
+    new Setting(contentEl).setName("Region").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(REGION_NAMES)
+        .setValue(this.options.region)
+        .onChange((value) => (this.options.region = value as BoardRegion))
+    );
+    new Setting(contentEl).setName("First player").addDropdown((dropdown) =>
+      dropdown
+        .addOptions({ B: "Black", W: "White" })
+        .setValue(this.options.firstColor)
+        .onChange((value) => (this.options.firstColor = value as StoneColor))
+    );
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Insert")
+        .setCta()
+        .onClick(() => {
+          this.onInsert(diagramTemplate(this.options));
+          this.close();
+        })
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Stone styles, shadows and board textures.
+ *
+ *   flat         plain circles in the colors of the palette (default)
+ *   shaded       radial gradients giving the stones a rounded look
+ *   slate-shell  matte slate black stones and striped shell white stones
+ *
+ * Everything is plain SVG, so that exported images look the same:
+ * textureDefs() writes the gradients and patterns in the <defs> of the
+ * image, and the textures are circles drawn over the stones (or a rectangle
+ * over the board) filled with url(#id). They are made of white and black at
+ * low opacity, so they go with every theme and color setting.
+ *
+ * The ids start with a prefix unique to each drawn diagram: the diagrams of
+ * a note are in the same document and would see each other's ids.
+ **/
+
+import { SVGNode, svgNode } from "./svg";
+
+export type StoneStyle = "flat" | "shaded" | "slate-shell";
+export type BoardTexture = "plain" | "wood";
+
+export interface TextureOptions {
+  stoneStyle: StoneStyle;
+  shadows: boolean;
+  boardTexture: BoardTexture;
+}
+
+export const STONE_STYLES: Record<StoneStyle, string> = {
+  flat: "Flat",
+  shaded: "Shaded",
+  "slate-shell": "Slate and shell",
+};
+export const BOARD_TEXTURES: Record<BoardTexture, string> = {
+  plain: "Plain",
+  wood: "Wood grain",
+};
+
+type Texture = "shade-black" | "shade-white" | "matte-black" | "slate" | "shell" | "shadow" | "grain";
+type Stop = [offset: number, color: string, opacity: number];
+
+// Textures drawn over the stones of each style, bottom first
+const STONE_TEXTURES: Record<StoneStyle, Record<"black" | "white", Texture[]>> = {
+  flat: { black: [], white: [] },
+  shaded: { black: ["shade-black"], white: ["shade-white"] },
+  "slate-shell": { black: ["slate", "matte-black"], white: ["shell", "shade-white"] },
+};
+
+// Highlight up and left of the center, as lit from the upper left
+const HIGHLIGHT = { cx: 0.35, cy: 0.3, r: 0.75, fx: 0.3, fy: 0.25 };
+const GRADIENT_STOPS: Record<"shade-black" | "shade-white" | "matte-black" | "shadow", Stop[]> = {
+  "shade-black": [[0, "white", 0.55], [0.3, "white", 0.15], [1, "white", 0]],
+  "matte-black": [[0, "white", 0.25], [0.5, "white", 0.06], [1, "white", 0]],
+  "shade-white": [[0, "black", 0], [0.6, "black", 0.06], [1, "black", 0.35]],
+  shadow: [[0, "black", 0.45], [0.7, "black", 0.3], [1, "black", 0]],
+};
+
+// Specks of the slate, in a 12px tile: x, y, radius, opacity
+const SLATE_SPECKS = [
+  [1.5, 2, 0.6, 0.1], [7, 1, 0.4, 0.08], [10.5, 4.5, 0.7, 0.07], [4, 6, 0.5, 0.1],
+  [8, 8.5, 0.6, 0.09], [2, 10, 0.4, 0.07], [11, 11, 0.5, 0.1], [5.5, 11.5, 0.3, 0.08],
+];
+// Stripes of the shell, across each stone: height and curvature, relative to the stone
+const SHELL_STRIPES = [[0.22, 0.04], [0.34, 0.05], [0.45, 0.06], [0.55, 0.06], [0.66, 0.05], [0.78, 0.04]];
+// Grain of the board, in a 240x48px tile: height, amplitude, opacity and width of the lines
+const WOOD_GRAIN = [
+  [4, 2, 0.07, 1.2], [11, 3, 0.05, 0.8], [17, 1.5, 0.08, 1.5], [26, 2.5, 0.04, 0.8],
+  [31, 2, 0.06, 1], [39, 3, 0.05, 1.8], [45, 1, 0.07, 0.8],
+];
+const GRAIN_TILE = { width: 240, height: 48 };
+
+/** Id of a texture in the diagram drawn with that prefix. */
+export function textureId(prefix: string, texture: Texture): string {
+  return `${prefix}-${texture}`;
+}
+
+/** Textures drawn over a stone of that color, bottom first. */
+export function stoneTextures(style: StoneStyle, color: "black" | "white"): Texture[] {
+  return STONE_TEXTURES[style][color];
+}
+
+/** The <defs> element of the textures used with these options, or null if there is none. */
+export function textureDefs(prefix: string, options: TextureOptions): SVGNode | null {
+  const used = new Set<Texture>([...stoneTextures(options.stoneStyle, "black"), ...stoneTextures(options.stoneStyle, "white")]);
+  if (options.shadows) used.add("shadow");
+  if (options.boardTexture === "wood") used.add("grain");
+  if (used.size === 0) return null;
+
+  const defs = svgNode("defs");
+  used.forEach((texture) => {
+    const id = textureId(prefix, texture);
+    switch (texture) {
+      case "slate":
+        defs.children.push(slatePattern(id));
+        break;
+      case "shell":
+        defs.children.push(shellPattern(id));
+        break;
+      case "grain":
+        defs.children.push(grainPattern(id));
+        break;
+      case "shadow":
+        defs.children.push(radialGradient(id, GRADIENT_STOPS.shadow, {}));
+        break;
+      default:
+        defs.children.push(radialGradient(id, GRADIENT_STOPS[texture], HIGHLIGHT));
+    }
+  });
+  return defs;
+}
+
+function radialGradient(id: string, stops: Stop[], attributes: Record<string, number>): SVGNode {
+  const gradient = svgNode("radialGradient", { id, ...attributes });
+  for (const [offset, color, opacity] of stops) {
+    gradient.children.push(svgNode("stop", { offset, "stop-color": color, "stop-opacity": opacity }));
+  }
+  return gradient;
+}
+
+function slatePattern(id: string): SVGNode {
+  const pattern = svgNode("pattern", { id, patternUnits: "userSpaceOnUse", width: 12, height: 12 });
+  for (const [cx, cy, r, opacity] of SLATE_SPECKS) {
+    pattern.children.push(svgNode("circle", { cx, cy, r, fill: "white", "fill-opacity": opacity }));
+  }
+  return pattern;
+}
+
+/** Curved stripes, one tile per stone. */
+function shellPattern(id: string): SVGNode {
+  const pattern = svgNode("pattern", { id, patternContentUnits: "objectBoundingBox", width: 1, height: 1 });
+  for (const [y, curve] of SHELL_STRIPES) {
+    pattern.children.push(svgNode("path", {
+      d: `M0 ${y} Q0.5 ${y - curve} 1 ${y}`,
+      fill: "none",
+      stroke: "black",
+      "stroke-opacity": 0.1,
+      "stroke-width": 0.015,
+    }));
+  }
+  return pattern;
+}
+
+/** Wavy lines that join from one tile to the next. */
+function grainPattern(id: string): SVGNode {
+  const { width, height } = GRAIN_TILE;
+  const pattern = svgNode("pattern", { id, patternUnits: "userSpaceOnUse", width, height });
+  for (const [y, amplitude, opacity, strokeWidth] of WOOD_GRAIN) {
+    pattern.children.push(svgNode("path", {
+      d: `M0 ${y} Q${width / 4} ${y - amplitude} ${width / 2} ${y} T${width} ${y}`,
+      fill: "none",
+      stroke: "black",
+      "stroke-opacity": opacity,
+      "stroke-width": strokeWidth,
+    }));
+  }
+  return pattern;
+}
@@ -0,0 +1,220 @@
+/**
+ * Cropping, rotation, mirroring and color swap of diagrams.
+ *
+ * transformDiagram() turns a parsed diagram so that the same shape can be
+ * shown from another corner or with the colors reversed. The points, the
+ * moves, the borders, the arrows and the links to coordinates move
+ * together, so the coordinates are those of the new position on the board.
+ * Swapping the colors also changes the color of the first move.
+ *
+ * A region ("Q10-T19") keeps only that window of the diagram, before the
+ * other transformations. The board goes on past the sides of the window,
+ * which are drawn as open lines, and the coordinates keep their board labels.
+ **/
+
+import {
+  BoardModel,
+  BoardPoint,
+  CellPosition,
+  COORDINATE_CHARS,
+  coordinateOrigin,
+  DiagramBorders,
+  hasErrors,
+  StoneColor,
+} from "./diagram";
+
+export type Rotation = 0 | 90 | 180 | 270;  // clockwise
+export type FlipDirection = "horizontal" | "vertical";
+
+export interface DiagramTransform {
+  origin?: string;            // board coordinates of the upper left point ("D16"), for diagrams away from the edges
+  region?: string;            // window of the board to show, between two corners: "Q10-T19"
+  rotate?: Rotation;
+  flip?: FlipDirection;       // applied after the rotation
+  swapColors?: boolean;
+}
+
+// A quarter turn clockwise, or a mirror image
+type Step = "rotate" | FlipDirection;
+
+// Symbol of the other color for the stone symbols
+const SWAPPED_SYMBOLS: Record<string, string> = {
+  X: "O", O: "X", B: "W", W: "B", "#": "@", "@": "#", Y: "Q", Q: "Y", Z: "P", P: "Z",
+};
+
+// Where each side of the board goes
+const SIDES: Record<Step, Record<keyof DiagramBorders, keyof DiagramBorders>> = {
+  rotate: { top: "right", right: "bottom", bottom: "left", left: "top" },
+  horizontal: { top: "top", right: "left", bottom: "bottom", left: "right" },
+  vertical: { top: "bottom", right: "right", bottom: "top", left: "left" },
+};
+const EDGE_SIDES: Record<string, keyof DiagramBorders> = { U: "top", B: "bottom", L: "left", R: "right" };
+const SIDE_EDGES: Record<keyof DiagramBorders, string> = { top: "U", bottom: "B", left: "L", right: "R" };
+const EDGE_ORDER = ["U", "B", "L", "R"];
+
+export const POINT_PATTERN = /^([a-z])(\d+)$/i;
+export const REGION_PATTERN = /^([a-z])(\d+)\s*-\s*([a-z])(\d+)$/i;
+
+/** True if the transform leaves the diagram as it is. */
+export function isIdentity(transform: DiagramTransform): boolean {
+  return !transform.origin && !transform.region && !transform.rotate && !transform.flip && !transform.swapColors;
+}
+
+/**
+ * A copy of the model placed on the board, cropped, rotated, then mirrored,
+ * with the colors swapped as asked. The diagnostics are kept: they point to
+ * the source of the diagram.
+ **/
+export function transformDiagram(model: BoardModel, transform: DiagramTransform): BoardModel {
+  if (hasErrors(model) || isIdentity(transform)) return model;
+  let result = model;
+  const origin = transform.origin?.trim().match(POINT_PATTERN);
+  if (origin) result = { ...result, origin: { x: COORDINATE_CHARS.indexOf(origin[1].toUpperCase()), y: parseInt(origin[2]) } };
+  if (transform.region) result = cropDiagram(result, transform.region);
+  for (let turn = 0; turn < (transform.rotate ?? 0) / 90; turn++) result = applyStep(result, "rotate");
+  if (transform.flip) result = applyStep(result, transform.flip);
+  if (transform.swapColors) result = swapColors(result);
+  return result;
+}
+
+/**
+ * The window of the diagram between two corners given in board coordinates
+ * ("Q10-T19"), clipped to the diagram. An invalid region, or one outside of
+ * the diagram, leaves the diagram as it is.
+ **/
+export function cropDiagram(model: BoardModel, region: string): BoardModel {
+  const crop = cropBounds(model, region);
+  if (!crop) return model;
+  const { left, right, top, bottom } = crop;
+  const origin = coordinateOrigin(model);
+  const inside = (cell: CellPosition) => cell.x >= left && cell.x <= right && cell.y >= top && cell.y <= bottom;
+  const shift = <T extends CellPosition>(cell: T): T => ({ ...cell, x: cell.x - left, y: cell.y - top });
+  return {
+    ...model,
+    width: right - left + 1,
+    height: bottom - top + 1,
+    points: model.points.slice(top, bottom + 1).map((points) => points.slice(left, right + 1)),
+    moves: model.moves.filter(inside).map(shift),
+    // the borders of the diagram that are still part of the window
+    borders: {
+      top: model.borders.top && top === 0,
+      bottom: model.borders.bottom && bottom === model.height - 1,
+      left: model.borders.left && left === 0,
+      right: model.borders.right && right === model.width - 1,
+    },
+    links: model.links
+      .filter((link) => !link.cell || inside(link.cell))
+      .map((link) => (link.cell ? { ...link, cell: shift(link.cell) } : link)),
+    overlays: model.overlays
+      .filter((overlay) => inside(overlay.from) && inside(overlay.to))
+      .map((overlay) => ({ ...overlay, from: shift(overlay.from), to: shift(overlay.to) })),
+    origin: { x: origin.x + left, y: origin.y - top },
+  };
+}
+
+/**
+ * Where a cell of the model is drawn once transformed, or null if it is
+ * cropped out. Used for moves kept outside of the model, such as the
+ * solution of a problem.
+ **/
+export function transformCell(model: BoardModel, transform: DiagramTransform, cell: CellPosition): CellPosition | null {
+  if (hasErrors(model) || isIdentity(transform)) return cell;
+  let { x, y } = cell;
+  let { width, height } = model;
+  // the region is in board coordinates, which the origin may give
+  const placed = transform.origin ? transformDiagram(model, { origin: transform.origin }) : model;
+  const crop = transform.region ? cropBounds(placed, transform.region) : null;
+  if (crop) {
+    if (x < crop.left || x > crop.right || y < crop.top || y > crop.bottom) return null;
+    x -= crop.left;
+    y -= crop.top;
+    width = crop.right - crop.left + 1;
+    height = crop.bottom - crop.top + 1;
+  }
+  const steps: Step[] = [];
+  for (let turn = 0; turn < (transform.rotate ?? 0) / 90; turn++) steps.push("rotate");
+  if (transform.flip) steps.push(transform.flip);
+  for (const step of steps) {
+    ({ x, y } = moveCell(step, width, height, { x, y }));
+    if (step === "rotate") [width, height] = [height, width];
+  }
+  return { x, y };
+}
+
+/** The cells of the model inside a region ("Q10-T19"), or null if there are none. */
+function cropBounds(model: BoardModel, region: string): { left: number; right: number; top: number; bottom: number } | null {
+  const match = region.trim().match(REGION_PATTERN);
+  if (!match) return null;
+  const origin = coordinateOrigin(model);
+  const column = (letter: string) => COORDINATE_CHARS.indexOf(letter.toUpperCase()) - origin.x;
+  const row = (number: string) => origin.y - parseInt(number);
+  const left = Math.max(0, Math.min(column(match[1]), column(match[3])));
+  const right = Math.min(model.width - 1, Math.max(column(match[1]), column(match[3])));
+  const top = Math.max(0, Math.min(row(match[2]), row(match[4])));
+  const bottom = Math.min(model.height - 1, Math.max(row(match[2]), row(match[4])));
+  return left > right || top > bottom ? null : { left, right, top, bottom };
+}
+
+/** Where a cell of a width x height grid goes with one step. */
+function moveCell(step: Step, width: number, height: number, cell: CellPosition): CellPosition {
+  if (step === "rotate") return { x: height - 1 - cell.y, y: cell.x };
+  if (step === "horizontal") return { x: width - 1 - cell.x, y: cell.y };
+  return { x: cell.x, y: height - 1 - cell.y };
+}
+
+function applyStep(model: BoardModel, step: Step): BoardModel {
+  const { width, height } = model;
+  const move = (cell: CellPosition): CellPosition => moveCell(step, width, height, cell);
+  const newWidth = step === "rotate" ? height : width;
+  const newHeight = step === "rotate" ? width : height;
+
+  const points: BoardPoint[][] = [];
+  for (let y = 0; y < newHeight; y++) points.push(new Array<BoardPoint>(newWidth));
+  model.points.forEach((row, y) =>
+    row.forEach((point, x) => {
+      const cell = move({ x, y });
+      const edges = point.edges.split("").map((edge) => SIDE_EDGES[SIDES[step][EDGE_SIDES[edge]]]);
+      // same order as the parser: U, B, L, R
+      points[cell.y][cell.x] = { ...point, edges: EDGE_ORDER.filter((edge) => edges.includes(edge)).join("") };
+    })
+  );
+
+  const borders = { ...model.borders };
+  for (const side of Object.keys(SIDES[step]) as (keyof DiagramBorders)[]) {
+    borders[SIDES[step][side]] = model.borders[side];
+  }
+
+  return {
+    ...model,
+    width: newWidth,
+    height: newHeight,
+    points,
+    moves: model.moves.map((played) => ({ ...played, ...move(played) })),
+    borders,
+    links: model.links.map((link) => (link.cell ? { ...link, cell: move(link.cell) } : link)),
+    overlays: model.overlays.map((overlay) => ({ ...overlay, from: move(overlay.from), to: move(overlay.to) })),
+    // a turned window is no longer aligned with the board coordinates
+    origin: undefined,
+  };
+}
+
+function swapColors(model: BoardModel): BoardModel {
+  const other = (color: StoneColor): StoneColor => (color === "B" ? "W" : "B");
+  const swap = (symbol: string) =>
+    Object.prototype.hasOwnProperty.call(SWAPPED_SYMBOLS, symbol) ? SWAPPED_SYMBOLS[symbol] : symbol;
+
+  return {
+    ...model,
+    metadata: {
+      ...model.metadata,
+      firstColor: other(model.metadata.firstColor),
+      moveNotes: model.metadata.moveNotes.map((note) => ({ ...note, color: other(note.color) })),
+    },
+    points: model.points.map((row) =>
+      row.map((point) => ({ ...point, symbol: swap(point.symbol), stone: point.stone && other(point.stone) }))
+    ),
+    moves: model.moves.map((played) => ({ ...played, color: other(played.color) })),
+    // a coordinate stays as it is
+    links: model.links.map((link) => (link.cell ? link : { ...link, anchor: swap(link.anchor) })),
+  };
+}
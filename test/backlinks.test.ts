@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { App, Plugin } from "obsidian";
+import { DiagramLinkIndex } from "../src/backlinks";
+
+const DIAGRAM = ["```goban", "$$B", "$$ | a . X", "$$ | . b .", "$$ [a|[[Joseki#Variations|the variations]]]", "$$ [b|Missing]", "```"];
+
+describe("DiagramLinkIndex", () => {
+  type Handler = (...args: unknown[]) => void;
+
+  /** A vault of notes and the events of its metadata cache, to send by hand. */
+  function fakeVault(notes: Record<string, string>) {
+    const handlers: Record<string, Handler> = {};
+    const on = (name: string, handler: Handler) => (handlers[name] = handler);
+    const file = (path: string) => ({ path, extension: "md" });
+    const triggered: string[] = [];
+    const metadataCache = {
+      on,
+      resolvedLinks: {} as Record<string, Record<string, number>>,
+      unresolvedLinks: {} as Record<string, Record<string, number>>,
+      getFileCache: (note: { path: string }) => ({ sections: notes[note.path].includes("```") ? [{ type: "code" }] : [] }),
+      getFirstLinkpathDest: (linkpath: string) => (notes[linkpath + ".md"] !== undefined ? file(linkpath + ".md") : null),
+      trigger: (name: string) => triggered.push(name),
+    };
+    const app = {
+      vault: {
+        on,
+        getMarkdownFiles: () => Object.keys(notes).map(file),
+        cachedRead: async (note: { path: string }) => notes[note.path],
+      },
+      metadataCache,
+      workspace: { onLayoutReady: () => {} },
+    };
+    const plugin = { registerEvent: () => {} };
+    const index = new DiagramLinkIndex(app as unknown as App);
+    index.register(plugin as unknown as Plugin);
+    const send = (name: string, ...args: unknown[]) => handlers[name](...args);
+    return { index, send, file, metadataCache, triggered };
+  }
+
+  it("adds the links of the diagrams to the links of their notes", async () => {
+    const { index, metadataCache, triggered } = fakeVault({ "a.md": DIAGRAM.join("\n"), "Joseki.md": "", "b.md": "[[Joseki]]" });
+    metadataCache.resolvedLinks["a.md"] = { "b.md": 1 };
+    await index.load();
+    expect(metadataCache.resolvedLinks["a.md"]).toEqual({ "b.md": 1, "Joseki.md": 1 });
+    expect(metadataCache.unresolvedLinks["a.md"]).toEqual({ Missing: 1 });
+    expect(metadataCache.resolvedLinks["b.md"]).toBeUndefined();
+    expect(triggered).toEqual(["resolved"]);
+  });
+
+  it("adds the links again when the cache resolves a note, without counting them twice", async () => {
+    const { index, send, file, metadataCache } = fakeVault({ "a.md": DIAGRAM.join("\n"), "Joseki.md": "" });
+    await index.load();
+    send("resolve", file("a.md"));
+    expect(metadataCache.resolvedLinks["a.md"]).toEqual({ "Joseki.md": 1 });
+
+    // the cache replaces the links of a note it resolves again
+    metadataCache.resolvedLinks["a.md"] = { "Joseki.md": 1 };
+    send("resolve", file("a.md"));
+    expect(metadataCache.resolvedLinks["a.md"]).toEqual({ "Joseki.md": 2 });
+  });
+
+  it("follows the changes, the deletions and the renames of the notes", async () => {
+    const { index, send, file, metadataCache } = fakeVault({ "a.md": DIAGRAM.join("\n"), "Joseki.md": "" });
+    await index.load();
+
+    send("changed", file("a.md"), "No diagram left");
+    send("resolve", file("a.md"));
+    expect(metadataCache.resolvedLinks["a.md"]).toEqual({});
+    expect(metadataCache.unresolvedLinks["a.md"]).toEqual({});
+
+    send("changed", file("a.md"), DIAGRAM.join("\n"));
+    send("rename", file("c.md"), "a.md");
+    send("resolve", file("c.md"));
+    expect(metadataCache.resolvedLinks["c.md"]).toEqual({ "Joseki.md": 1 });
+
+    send("deleted", file("c.md"));
+    metadataCache.resolvedLinks["c.md"] = {};
+    send("resolve", file("c.md"));
+    expect(metadataCache.resolvedLinks["c.md"]).toEqual({});
+  });
+});
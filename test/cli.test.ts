@@ -0,0 +1,33 @@
+import { spawnSync } from "child_process";
+import { describe, expect, it } from "vitest";
+
+/** Run goban-render from the sources, with the diagram on the standard input. */
+function render(input: string, ...args: string[]) {
+  const result = spawnSync("node_modules/.bin/vite-node", ["src/cli.ts", "--", ...args], { input, encoding: "utf8" });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe("goban-render", () => {
+  it("writes the SVG image of the diagram", () => {
+    const { status, stdout, stderr } = render("$$B\n$$ | X O . |\n", "--theme", "dark");
+    expect(status).toBe(0);
+    expect(stderr).toBe("");
+    expect(stdout).toMatch(/^<svg .*class="goban-block goban-theme-dark".*<\/svg>\n$/s);
+  });
+
+  it("draws the image at the width given on the command line", () => {
+    const { stdout } = render("$$B\n$$ | X O . |\n", "--width", "600");
+    expect(stdout).toMatch(/^<svg [^>]* width="600"/);
+  });
+
+  it("reports the problems with their line in the input, options included", () => {
+    const { status, stderr } = render("width: 300\n$$B\n$$ | X ? |\n");
+    expect(status).toBe(0);
+    expect(stderr).toBe('<stdin>:3:8: warning: Unknown symbol "?" skipped\n');
+  });
+
+  it("fails on diagrams that cannot be rendered and on invalid options", () => {
+    expect(render("| X O |\n").status).toBe(1);
+    expect(render("$$B\n", "--width", "wide").status).toBe(2);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { columnLabel, parseCoordinateSides, rowLabel } from "../src/coordinates";
+
+describe("columnLabel", () => {
+  it("labels the columns in each style", () => {
+    expect([0, 8, 18].map((column) => columnLabel("western", column, 19))).toEqual(["A", "J", "T"]);
+    expect([0, 8, 18].map((column) => columnLabel("numeric", column, 19))).toEqual(["1", "9", "19"]);
+    expect([0, 8, 18].map((column) => columnLabel("japanese", column, 19))).toEqual(["19", "11", "1"]);
+    expect([0, 8, 18].map((column) => columnLabel("sgf", column, 19))).toEqual(["a", "i", "s"]);
+  });
+});
+
+describe("rowLabel", () => {
+  it("labels the rows in each style", () => {
+    expect([19, 10, 1].map((row) => rowLabel("western", row, 19))).toEqual(["19", "10", "1"]);
+    expect([19, 10, 1].map((row) => rowLabel("numeric", row, 19))).toEqual(["19", "10", "1"]);
+    expect([19, 10, 9, 1].map((row) => rowLabel("japanese", row, 19))).toEqual(["一", "十", "十一", "十九"]);
+    expect([19, 10, 1].map((row) => rowLabel("sgf", row, 19))).toEqual(["a", "j", "s"]);
+  });
+});
+
+describe("parseCoordinateSides", () => {
+  it("reads a list of sides", () => {
+    expect(parseCoordinateSides("top, right")).toEqual(["top", "right"]);
+    expect(parseCoordinateSides("Bottom left")).toEqual(["bottom", "left"]);
+    expect(parseCoordinateSides("all")).toEqual(["top", "bottom", "left", "right"]);
+  });
+
+  it("rejects unknown sides and empty lists", () => {
+    expect(parseCoordinateSides("top, middle")).toBe(null);
+    expect(parseCoordinateSides(" , ")).toBe(null);
+  });
+});
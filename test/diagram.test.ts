@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { coordinateOrigin, formatDiagram, hasErrors, linkAt, parseDiagram, splitTitle } from "../src/diagram";
+
+const CORNER = [
+  "$$Wc9m20 Corner fight",
+  "$$ +-------------------+",
+  "$$ | . . . . . . . . . |",
+  "$$ | . . X O 1 . . . . |",
+  "$$ | . . a , . . . . . |",
+  "$$ | . . . . . . . . . |",
+  "$$ | . . . . . . . . . |",
+  "$$ | . . . . . . . . . |",
+  "$$ | . . . . . . . . . |",
+  "$$ | . . . . . . . . . |",
+  "$$ | . . . . . . . . . |",
+  "$$ +-------------------+",
+  "$$ [X|[[Note#Heading|alias]] \"A tooltip\"]",
+  "$$ [D8|https://example.org]",
+  "$$ {AR c7 e8}",
+].join("\n");
+
+describe("parseDiagram", () => {
+  it("reads the header flags", () => {
+    const model = parseDiagram(CORNER);
+    expect(hasErrors(model)).toBe(false);
+    expect(model.boardSize).toBe(9);
+    expect(model.metadata).toEqual({ firstColor: "W", coordinates: true, startMove: 20, title: "Corner fight", moveNotes: [] });
+  });
+
+  it("reads the points, the moves and the borders", () => {
+    const model = parseDiagram(CORNER);
+    expect(model.width).toBe(9);
+    expect(model.height).toBe(9);
+    expect(model.borders).toEqual({ top: true, bottom: true, left: true, right: true });
+    expect(model.points[1][2]).toMatchObject({ symbol: "X", stone: "B", mark: null });
+    expect(model.points[2][2]).toMatchObject({ label: "a", stone: null });
+    expect(model.points[2][3].hoshi).toBe(true);
+    expect(model.points[0][0].edges).toBe("UL");
+    expect(model.moves).toEqual([{ number: 1, color: "W", x: 4, y: 1, line: 3, column: 13 }]);
+  });
+
+  it("reads the marks of the stones and of the empty points", () => {
+    const { points } = parseDiagram("$$\n$$ B @ Y Z\n$$ C S T M");
+    expect(points[0].map((point) => [point.stone, point.mark])).toEqual([
+      ["B", "circle"], ["W", "square"], ["B", "triangle"], ["B", "cross"],
+    ]);
+    expect(points[1].map((point) => [point.stone, point.mark])).toEqual([
+      [null, "circle"], [null, "square"], [null, "triangle"], [null, "cross"],
+    ]);
+  });
+
+  it("reads the links, their tooltips and coordinate anchors", () => {
+    expect(parseDiagram(CORNER).links).toEqual([
+      { anchor: "X", target: "[[Note#Heading|alias]]", title: "A tooltip", cell: null },
+      { anchor: "D8", target: "https://example.org", title: "", cell: { x: 3, y: 1 } },
+    ]);
+  });
+
+  it("reads indented links", () => {
+    const model = parseDiagram("$$\n$$ . X\n  $$ [X|Page]");
+    expect(model.diagnostics).toEqual([]);
+    expect(model.links).toEqual([{ anchor: "X", target: "Page", title: "", cell: null }]);
+  });
+
+  it("reads the overlays in board coordinates", () => {
+    expect(parseDiagram(CORNER).overlays).toEqual([{ type: "AR", from: { x: 2, y: 2 }, to: { x: 4, y: 1 } }]);
+  });
+
+  it("reports links to coordinates outside of the diagram", () => {
+    const model = parseDiagram("$$\n$$ +---\n$$ | . .\n$$ [K10|Page]");
+    expect(model.links).toEqual([]);
+    expect(model.diagnostics).toEqual([
+      { severity: "warning", message: 'Coordinate "K10" is outside of the diagram', line: 3, column: 3 },
+    ]);
+  });
+
+  it("reports a missing header as an error", () => {
+    expect(hasErrors(parseDiagram("$ . . ."))).toBe(true);
+  });
+
+  it("reports unknown symbols past the end of the first row", () => {
+    const model = parseDiagram("$$\n$$ X .\n$$ X . K");
+    expect(model.diagnostics).toEqual([
+      { severity: "warning", message: "Row has 3 points instead of 2", line: 2, column: 7 },
+      { severity: "warning", message: 'Unknown symbol "K" skipped', line: 2, column: 7 },
+    ]);
+  });
+
+  it("reports unknown symbols and links to symbols that are not in the diagram", () => {
+    const model = parseDiagram("$$\n$$ . K .\n$$ [b|Page]");
+    expect(model.diagnostics.map((d) => d.message)).toEqual([
+      'Unknown symbol "K" skipped',
+      'Link anchor "b" does not appear in the diagram',
+    ]);
+  });
+});
+
+describe("linkAt", () => {
+  it("gives the link of a coordinate before the link of a symbol", () => {
+    const model = parseDiagram(CORNER);
+    expect(linkAt(model, { x: 2, y: 1 })?.target).toBe("[[Note#Heading|alias]]");
+    expect(linkAt(model, { x: 3, y: 1 })?.target).toBe("https://example.org");
+    expect(linkAt(model, { x: 0, y: 0 })).toBe(null);
+  });
+
+  it("matches moves by their number, and the last link to a symbol wins", () => {
+    const model = parseDiagram("$$\n$$ | 1 2 3 4 5 6 7 8 9 0 |\n$$ [10|Ten]\n$$ [2|First]\n$$ [2|Second]");
+    expect(linkAt(model, { x: 9, y: 0 })?.target).toBe("Ten");
+    expect(linkAt(model, { x: 1, y: 0 })?.target).toBe("Second");
+  });
+});
+
+describe("splitTitle", () => {
+  it("separates the moves played on taken points and the passes from the text", () => {
+    expect(splitTitle("Ko fight, 4 at 1; 7 at a (ko), 9 pass", "W", 3)).toEqual({
+      text: ["Ko fight"],
+      moveNotes: [
+        { number: 4, color: "B", at: 1, comment: "", column: 13 },
+        { number: 7, color: "W", at: "a", comment: " (ko)", column: 21 },
+        { number: 9, color: "W", at: null, comment: "", column: 34 },
+      ],
+    });
+  });
+});
+
+describe("coordinateOrigin", () => {
+  it("aligns a diagram to the board edges given by its borders", () => {
+    expect(coordinateOrigin(parseDiagram(CORNER))).toEqual({ x: 0, y: 9 });
+    expect(coordinateOrigin(parseDiagram("$$9\n$$ ----+\n$$ . . |\n$$ . . |"))).toEqual({ x: 7, y: 9 });
+    expect(coordinateOrigin(parseDiagram("$$9\n$$ | . .\n$$ +----"))).toEqual({ x: 0, y: 1 });
+  });
+});
+
+describe("formatDiagram", () => {
+  it("writes a diagram that reads back the same", () => {
+    const model = parseDiagram(CORNER);
+    const again = parseDiagram(formatDiagram(model));
+    expect(again.diagnostics).toEqual([]);
+    expect(again.metadata).toEqual(model.metadata);
+    expect(again.borders).toEqual(model.borders);
+    expect(again.points).toEqual(model.points);
+    expect(again.links).toEqual(model.links);
+    expect(again.overlays).toEqual(model.overlays);
+    expect(again.moves.map(({ number, color, x, y }) => ({ number, color, x, y }))).toEqual(
+      model.moves.map(({ number, color, x, y }) => ({ number, color, x, y }))
+    );
+  });
+
+  it("writes the borders toggled in the editor", () => {
+    const model = parseDiagram("$$\n$$ +-----\n$$ | X . .\n$$ | . O .");
+    model.borders.top = false;
+    model.borders.right = true;
+    expect(formatDiagram(model)).toBe("$$\n$$ | X . . |\n$$ | . O . |");
+    expect(parseDiagram(formatDiagram(model)).borders).toEqual({ top: false, bottom: false, left: true, right: true });
+  });
+
+  it("writes the symbols changed in the editor, which read back as moves and marks", () => {
+    const model = parseDiagram("$$W\n$$ | . . .\n$$ | . , .");
+    model.points[0][0].symbol = "1";
+    model.points[0][1].symbol = "10";
+    model.points[1][2].symbol = "T";
+    const again = parseDiagram(formatDiagram(model));
+    expect(again.moves.map(({ number, color }) => [number, color])).toEqual([[1, "W"], [10, "B"]]);
+    expect(again.points[1][2].mark).toBe("triangle");
+    expect(again.points[1][1].hoshi).toBe(true);
+  });
+});
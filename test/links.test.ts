@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { parseDiagram } from "../src/diagram";
+import { diagramLinks, internalLinkpath } from "../src/links";
+import { GoDiagram } from "../src/sltxt2svg";
+
+describe("internalLinkpath", () => {
+  it("reads the link text of wikilinks and bare note names", () => {
+    expect(internalLinkpath("[[Joseki#Corner|the corner]]")).toBe("Joseki#Corner");
+    expect(internalLinkpath("[[ Joseki ]]")).toBe("Joseki");
+    expect(internalLinkpath("Opening ideas")).toBe("Opening ideas");
+  });
+
+  it("gives no link text for web addresses", () => {
+    expect(internalLinkpath("https://senseis.xmp.net/")).toBe(null);
+    expect(internalLinkpath("mailto:someone@example.org")).toBe(null);
+    expect(internalLinkpath("//example.org/page")).toBe(null);
+  });
+});
+
+describe("diagramLinks", () => {
+  it("lists the links to notes of the goban blocks of a note", () => {
+    const note = [
+      "See [[Elsewhere]].",
+      "```goban",
+      "width: 300",
+      "$$",
+      "$$ | a b |",
+      "$$ [a|[[Joseki#Corner|alias]]]",
+      "$$ [b|https://example.org]",
+      "```",
+      "```goban",
+      "$$",
+      "$$ | X . |",
+      "$$ [1|Life and death]",
+      "```",
+    ];
+    expect(diagramLinks(note.join("\n"))).toEqual(["Joseki#Corner", "Life and death"]);
+  });
+});
+
+describe("GoDiagram links", () => {
+  const source = "$$\n$$ | a b |\n$$ [a|[[Joseki]]]\n$$ [b|https://example.org]";
+
+  it("reads links whose target has its own separator", () => {
+    expect(parseDiagram(source).links.map((link) => [link.anchor, link.target])).toEqual([
+      ["a", "[[Joseki]]"],
+      ["b", "https://example.org"],
+    ]);
+  });
+
+  it("marks the links to notes with their link text", () => {
+    const svg = new GoDiagram(source).createSVGString();
+    expect(svg).toContain('<a href="Joseki" style="text-decoration:none" data-href="Joseki" class="goban-internal-link">');
+    expect(svg).toContain('<a href="https://example.org" style="text-decoration:none">');
+  });
+
+  it("gives the links their tooltip", () => {
+    const svg = new GoDiagram("$$\n$$ | X . |\n$$ [X|Joseki \"The 3-3 invasion\"]").createSVGString();
+    expect(svg).toContain('class="goban-internal-link"><title>The 3-3 invasion</title>');
+  });
+
+  it("gives the square of each linked intersection", () => {
+    const areas = new GoDiagram(source).getLinkmap();
+    expect(areas.map(({ cell, link, title }) => [cell, link, title])).toEqual([
+      [{ x: 0, y: 0 }, "[[Joseki]]", ""],
+      [{ x: 1, y: 0 }, "https://example.org", ""],
+    ]);
+    expect(areas[1].x1).toBe(areas[0].x2);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { findGobanBlocks } from "../src/notes";
+
+describe("findGobanBlocks", () => {
+  it("finds the goban blocks with their line and content", () => {
+    const note = ["# Title", "```goban", "$$", "$$ | X |", "```", "```js", "x = 1", "```", "~~~~ goban", "$$B", "~~~~"];
+    expect(findGobanBlocks(note.join("\n"))).toEqual([
+      { line: 1, source: "$$\n$$ | X |" },
+      { line: 8, source: "$$B" },
+    ]);
+  });
+
+  it("closes a block only with a fence as long as its own", () => {
+    const note = ["````goban", "$$", "```", "$$ | X |", "````", "after"];
+    expect(findGobanBlocks(note.join("\n"))).toEqual([{ line: 0, source: "$$\n```\n$$ | X |" }]);
+  });
+
+  it("ends a block left open with the note", () => {
+    expect(findGobanBlocks("```goban\n$$\n$$ | O |")).toEqual([{ line: 0, source: "$$\n$$ | O |" }]);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * The parts of the Obsidian API used by the modules under test. Obsidian
+ * provides the API at run time, the obsidian package only has its types.
+ **/
+
+export function setIcon(): void {}
+
+export class Modal {}
+
+export class Setting {}
+
+export class ItemView {}
+
+export class Events {
+  private handlers: Record<string, ((...data: unknown[]) => unknown)[]> = {};
+
+  on(name: string, callback: (...data: unknown[]) => unknown) {
+    (this.handlers[name] = this.handlers[name] ?? []).push(callback);
+    return { name, callback };
+  }
+
+  trigger(name: string, ...data: unknown[]): void {
+    for (const callback of this.handlers[name] ?? []) callback(...data);
+  }
+}
+
+export function getLinkpath(linktext: string): string {
+  return linktext.replace(/#.*$/, "");
+}
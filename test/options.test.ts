@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { parseOptions, splitBlockOptions } from "../src/options";
+
+describe("parseOptions", () => {
+  it("reads the known keys in either notation", () => {
+    expect(parseOptions(["width: 300", "theme=Dark", "coords: no", "move: 12", "numbers = 5"])).toEqual({
+      width: 300,
+      theme: "dark",
+      coordinates: false,
+      move: 12,
+      numbers: 5,
+    });
+  });
+
+  it("reads the transforms, with rotations in any multiple of 90 degrees", () => {
+    expect(parseOptions(["rotate: -90", "mirror: vertical", "swap: yes"])).toEqual({ rotate: 270, flip: "vertical", swapColors: true });
+    expect(parseOptions(["rotate: 45", "flip: diagonal"])).toEqual({});
+  });
+
+  it("reads a region between two board corners", () => {
+    expect(parseOptions(["region: Q10-T19"])).toEqual({ region: "q10-t19" });
+    expect(parseOptions(["view: upper right"])).toEqual({});
+  });
+
+  it("reads the coordinate sides, style and origin", () => {
+    expect(parseOptions(["coord-sides: bottom, right", "coord-style: japanese", "origin: D16"])).toEqual({
+      coordinateSides: ["bottom", "right"],
+      coordinateStyle: "japanese",
+      origin: "d16",
+    });
+    expect(parseOptions(["coords-sides: middle", "coords-style: roman", "origin: 16"])).toEqual({});
+  });
+
+  it("reads the stone style, the shadows and the board texture", () => {
+    expect(parseOptions(["theme: print", "stones: slate-shell", "shadows: on", "board: wood"])).toEqual({
+      theme: "print",
+      stoneStyle: "slate-shell",
+      shadows: true,
+      boardTexture: "wood",
+    });
+    expect(parseOptions(["stones: glass", "texture: marble"])).toEqual({});
+  });
+
+  it("reads the problem mode under either name", () => {
+    expect(parseOptions(["problem: true"])).toEqual({ problem: true });
+    expect(parseOptions(["tsumego: off"])).toEqual({ problem: false });
+  });
+
+  it("ignores unknown keys and invalid values", () => {
+    expect(parseOptions(["size: 9", "width: -4", "theme: sepia", "coordinates: maybe", "move: last"])).toEqual({});
+  });
+});
+
+describe("splitBlockOptions", () => {
+  it("takes the option lines before the diagram", () => {
+    const { options, body, bodyStart } = splitBlockOptions("width: 200\ncoordinates: yes\n\n$$B\n$$ | . X |");
+    expect(options).toEqual({ width: 200, coordinates: true });
+    expect(body).toBe("$$B\n$$ | . X |");
+    expect(bodyStart).toBe(3);
+  });
+
+  it("takes the options between --- fences", () => {
+    const { options, body, bodyStart } = splitBlockOptions("---\ntheme: light\n---\n(;SZ[9])");
+    expect(options).toEqual({ theme: "light" });
+    expect(body).toBe("(;SZ[9])");
+    expect(bodyStart).toBe(3);
+  });
+
+  it("leaves the source alone when the fence is not closed", () => {
+    const source = "---\ntheme: light\n$$B";
+    expect(splitBlockOptions(source)).toEqual({ options: {}, body: source, bodyStart: 0 });
+  });
+
+  it("leaves a diagram without options alone", () => {
+    expect(splitBlockOptions("$$B\n$$ | . X |")).toEqual({ options: {}, body: "$$B\n$$ | . X |", bodyStart: 0 });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { parseDiagram } from "../src/diagram";
+import { playbackSteps } from "../src/playback";
+
+describe("playbackSteps", () => {
+  const model = parseDiagram("$$B\n$$ +-----\n$$ | O X .\n$$ | 1 . .\n$$ | . . 2");
+
+  it("starts from the position before the first move", () => {
+    const [start] = playbackSteps(model);
+    expect(start.move).toBe(null);
+    expect(start.model.moves).toEqual([]);
+    expect(start.model.points.map((row) => row.map((point) => point.stone))).toEqual([
+      ["W", "B", null],
+      [null, null, null],
+      [null, null, null],
+    ]);
+  });
+
+  it("plays the moves in order and removes the captured stones", () => {
+    const steps = playbackSteps(model);
+    expect(steps).toHaveLength(3);
+    expect(steps[1].move).toMatchObject({ number: 1, x: 0, y: 1 });
+    expect(steps[1].model.points[0][0].stone).toBe(null);
+    expect(steps[1].model.points[0][0].symbol).toBe(".");
+    expect(steps[2].model.points[2][2]).toMatchObject({ stone: "W", move: 2 });
+    expect(steps[2].model.moves.map((move) => move.number)).toEqual([1, 2]);
+  });
+
+  it("plays the moves of the title as plain stones", () => {
+    // 2 takes 1 in a ko, and 3 takes back
+    const steps = playbackSteps(parseDiagram(["$$W 3 at 1", "$$ +-------", "$$ | . X O .", "$$ | X 1 2 O", "$$ | . X O ."].join("\n")));
+    expect(steps).toHaveLength(4);
+    expect(steps[3].move).toMatchObject({ number: 3, color: "W", x: 1, y: 1 });
+    expect(steps[2].model.points[1][1].stone).toBe(null);
+    expect(steps[3].model.points[1][1]).toMatchObject({ symbol: "O", stone: "W", move: null });
+    expect(steps[3].model.points[1][2].stone).toBe(null);
+  });
+
+  it("leaves the diagram model alone", () => {
+    playbackSteps(model);
+    expect(model.points[0][0].stone).toBe("W");
+  });
+});
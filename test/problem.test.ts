@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { parseDiagram } from "../src/diagram";
+import { diagramSolution, SolutionNode, transformSolution } from "../src/problem";
+
+/** The moves of the first line of a solution tree. */
+function firstLine(node: SolutionNode): string[] {
+  const moves: string[] = [];
+  for (let child = node.children[0]; child; child = child.children[0]) {
+    if (child.move) moves.push(`${child.move.color}${child.move.x},${child.move.y}`);
+  }
+  return moves;
+}
+
+describe("diagramSolution", () => {
+  it("turns the numbered moves into a single correct line", () => {
+    const solution = diagramSolution(parseDiagram("$$W\n$$ +-----\n$$ | . 2 .\n$$ | 1 X .\n$$ | . . 3"));
+    expect(solution.move).toBe(null);
+    expect(solution.correct).toBe(true);
+    expect(firstLine(solution)).toEqual(["W0,1", "B1,0", "W2,2"]);
+  });
+
+  it("follows the moves of the title", () => {
+    const model = parseDiagram(["$$W 3 at 1", "$$ +-------", "$$ | . X O .", "$$ | X 1 2 O", "$$ | . X O ."].join("\n"));
+    expect(firstLine(diagramSolution(model))).toEqual(["W1,1", "B2,1", "W1,1"]);
+  });
+});
+
+describe("transformSolution", () => {
+  const model = parseDiagram("$$B\n$$ +-----\n$$ | 1 . .\n$$ | . 2 .\n$$ | . . 3");
+  const solution = diagramSolution(model);
+
+  it("turns the moves with the diagram and swaps their colors", () => {
+    const turned = transformSolution(solution, model, { rotate: 90, swapColors: true });
+    expect(firstLine(turned)).toEqual(["W2,0", "B1,1", "W0,2"]);
+  });
+
+  it("leaves out the lines going through moves cropped out of the diagram", () => {
+    // the diagram is the upper left corner of the board: A19-C17
+    const cropped = transformSolution(solution, model, { region: "A19-B18" });
+    expect(firstLine(cropped)).toEqual(["B0,0", "W1,1"]);
+    expect(transformSolution(solution, model, { region: "B18-C17" }).children).toEqual([]);
+  });
+});
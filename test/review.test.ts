@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { App, Plugin } from "obsidian";
+import { findProblems, ProblemIndex } from "../src/review";
+
+const PROBLEM = ["```goban", "problem: true", "$$B Corner life", "$$ +-----", "$$ | . 1 .", "$$ | X . .", "```"];
+
+describe("findProblems", () => {
+  it("lists the goban blocks with the problem option and a solution", () => {
+    const note = ["# Problems", "", ...PROBLEM, "", "```goban", "$$B", "$$ | 1 . .", "```", "", "~~~~goban", "problem: true", "$$B", "$$ | X . .", "~~~~"];
+    const problems = findProblems("Tsumego.md", note.join("\n"));
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatchObject({ path: "Tsumego.md", line: 2, title: "Corner life", source: PROBLEM.slice(1, -1).join("\n") });
+    expect(problems[0].key).toMatch(/^Tsumego\.md#[0-9a-z]+$/);
+  });
+
+  it("keys the problems by their diagram, so that an edit gives a new problem", () => {
+    const key = (note: string[]) => findProblems("a.md", note.join("\n"))[0].key;
+    expect(key(["Intro", ...PROBLEM])).toBe(key(PROBLEM));
+    expect(key(PROBLEM.map((line) => line.replace("X", "O")))).not.toBe(key(PROBLEM));
+  });
+});
+
+describe("ProblemIndex", () => {
+  type Handler = (...args: unknown[]) => void;
+
+  /** A vault of notes and the events of its metadata cache, to send by hand. */
+  function fakeVault(notes: Record<string, string>) {
+    const handlers: Record<string, Handler> = {};
+    const on = (name: string, handler: Handler) => (handlers[name] = handler);
+    const file = (path: string) => ({ path, extension: "md" });
+    const app = {
+      vault: {
+        on,
+        getMarkdownFiles: () => Object.keys(notes).map(file),
+        cachedRead: async (note: { path: string }) => notes[note.path],
+      },
+      metadataCache: { on },
+    };
+    const plugin = { registerEvent: () => {} };
+    const index = new ProblemIndex(app as unknown as App);
+    index.register(plugin as unknown as Plugin);
+    const send = (name: string, ...args: unknown[]) => handlers[name](...args);
+    return { index, send, file };
+  }
+
+  const paths = (problems: { path: string }[]) => problems.map((problem) => problem.path).sort();
+
+  it("reads the notes of the vault once, then follows their changes", async () => {
+    const { index, send, file } = fakeVault({ "a.md": PROBLEM.join("\n"), "b.md": "No problems here" });
+    expect(paths(await index.problems())).toEqual(["a.md"]);
+
+    send("changed", file("b.md"), PROBLEM.join("\n"));
+    expect(paths(await index.problems())).toEqual(["a.md", "b.md"]);
+    send("deleted", file("a.md"));
+    expect(paths(await index.problems())).toEqual(["b.md"]);
+  });
+
+  it("moves the problems of a renamed note with their keys", async () => {
+    const { index, send, file } = fakeVault({ "a.md": PROBLEM.join("\n") });
+    const [before] = await index.problems();
+    send("rename", file("c.md"), "a.md");
+    const [after] = await index.problems();
+    expect(after.path).toBe("c.md");
+    expect(after.key).toBe("c.md" + before.key.slice("a.md".length));
+  });
+
+  it("triggers changed when the problems of a note change", async () => {
+    const { index, send, file } = fakeVault({ "a.md": PROBLEM.join("\n"), "b.md": "No problems here" });
+    await index.problems();
+    let changes = 0;
+    index.on("changed", () => changes++);
+
+    send("changed", file("b.md"), "Still no problems");
+    send("changed", file("a.md"), ["Intro", "", ...PROBLEM].join("\n"));
+    expect(changes).toBe(1);
+    send("changed", file("b.md"), PROBLEM.join("\n"));
+    send("rename", file("c.md"), "b.md");
+    send("deleted", file("a.md"));
+    expect(changes).toBe(4);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { parseDiagram } from "../src/diagram";
+import { Board, emptyBoard, groupAt, playStone, replayDiagram } from "../src/rules";
+
+describe("playStone", () => {
+  it("captures a stone without liberties", () => {
+    const board: Board = emptyBoard(3, 3);
+    board[0][1] = "W";
+    board[0][0] = "B";
+    expect(playStone(board, 0, 1, "W")).toEqual([[0, 0]]);
+    expect(board[0][0]).toBe(null);
+  });
+
+  it("removes a suicide", () => {
+    const board: Board = emptyBoard(3, 3);
+    board[0][1] = "W";
+    board[1][0] = "W";
+    expect(playStone(board, 0, 0, "B")).toEqual([[0, 0]]);
+    expect(board[0][0]).toBe(null);
+  });
+
+  it("counts the points beyond a side without border as liberties", () => {
+    const board: Board = emptyBoard(3, 3);
+    board[0][1] = "W";
+    board[0][0] = "B";
+    const borders = { top: true, bottom: true, left: false, right: true };
+    expect(playStone(board, 0, 1, "W", borders)).toEqual([]);
+    expect(board[0][0]).toBe("B");
+  });
+});
+
+describe("groupAt", () => {
+  it("finds the stones of a group and its liberties", () => {
+    const board: Board = emptyBoard(3, 3);
+    board[0][0] = "B";
+    board[0][1] = "B";
+    board[1][0] = "W";
+    const group = groupAt(board, 1, 0);
+    expect(group?.color).toBe("B");
+    expect(group?.stones).toEqual([[1, 0], [0, 0]]);
+    expect(group?.liberties).toEqual([[2, 0], [1, 1]]);
+    expect(groupAt(board, 2, 2)).toBe(null);
+  });
+});
+
+describe("replayDiagram", () => {
+  it("counts the captures of the numbered moves", () => {
+    const result = replayDiagram(parseDiagram("$$\n$$ +-----\n$$ | O 1 .\n$$ | . . ."));
+    expect(result.captures).toEqual({ B: 0, W: 0 });
+    const capture = replayDiagram(parseDiagram("$$\n$$ +-----\n$$ | O X .\n$$ | 1 . ."));
+    expect(capture.steps[0].captured).toEqual([[0, 0]]);
+    expect(capture.captures).toEqual({ B: 1, W: 0 });
+    expect(capture.board[0][0]).toBe(null);
+  });
+
+  it("reports a ko retaken at once", () => {
+    // 2 takes 1 in a ko, and 3 takes back at once
+    const model = parseDiagram(["$$W 3 at 1", "$$ +-------", "$$ | . X O .", "$$ | X 1 2 O", "$$ | . X O ."].join("\n"));
+    const result = replayDiagram(model);
+    expect(result.steps.map((step) => step.captured)).toEqual([[], [[1, 1]], [[2, 1]]]);
+    expect(model.diagnostics.map((d) => d.message)).toEqual(["Move 3 retakes the ko without playing elsewhere first"]);
+  });
+
+  it("reports a move on an occupied point", () => {
+    const occupied = parseDiagram("$$B 3 at 1\n$$ +---\n$$ | 1 2\n$$ | . .");
+    expect(occupied.diagnostics.map((d) => d.message)).toEqual(["Move 3 is played on an occupied point"]);
+  });
+});
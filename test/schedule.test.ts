@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { isDue, renameReviews, scheduleReview } from "../src/schedule";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 0, 10, 15, 30).getTime();
+const TODAY = new Date(2026, 0, 10).getTime();
+
+describe("scheduleReview", () => {
+  it("reviews a new problem the next day after a pass, then 6 days later, then longer", () => {
+    const first = scheduleReview(undefined, true, NOW);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, passed: true, due: TODAY + DAY });
+    const second = scheduleReview(first, true, NOW);
+    expect(second).toMatchObject({ repetitions: 2, interval: 6 });
+    const third = scheduleReview(second, true, NOW);
+    expect(third.interval).toBe(Math.round(6 * second.ease));
+    expect(third.interval).toBeGreaterThan(6);
+  });
+
+  it("brings a failed problem back the next day with a lower ease", () => {
+    const passed = scheduleReview(scheduleReview(undefined, true, NOW), true, NOW);
+    const failed = scheduleReview(passed, false, NOW);
+    expect(failed).toMatchObject({ repetitions: 0, interval: 1, passed: false, due: TODAY + DAY });
+    expect(failed.ease).toBeLessThan(passed.ease);
+  });
+
+  it("keeps the ease above its minimum", () => {
+    let record = scheduleReview(undefined, false, NOW);
+    for (let i = 0; i < 20; i++) record = scheduleReview(record, false, NOW);
+    expect(record.ease).toBe(1.3);
+  });
+});
+
+describe("isDue", () => {
+  it("is due for new problems and from the due day on", () => {
+    const record = scheduleReview(undefined, true, NOW);
+    expect(isDue(undefined, NOW)).toBe(true);
+    expect(isDue(record, NOW)).toBe(false);
+    expect(isDue(record, TODAY + DAY)).toBe(true);
+  });
+});
+
+describe("renameReviews", () => {
+  it("moves the records of a renamed note only", () => {
+    const record = scheduleReview(undefined, true, NOW);
+    const reviews = { "a.md#1": record, "ab.md#2": record };
+    expect(renameReviews(reviews, "a.md", "c.md")).toBe(true);
+    expect(Object.keys(reviews).sort()).toEqual(["ab.md#2", "c.md#1"]);
+  });
+});
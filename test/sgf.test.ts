@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { parseDiagram } from "../src/diagram";
+import { diagramToSGF, mainLine, parsePoint, parseSGF, SGFParseError, sgfSolution, sgfToDiagram } from "../src/sgf";
+import { GoDiagram } from "../src/sltxt2svg";
+import { transformDiagram } from "../src/transform";
+
+/** The symbols of the rows of a diagram, without the header and the borders. */
+function rowsOf(diagram: string): string[] {
+  return diagram
+    .split("\n")
+    .filter((line) => line.startsWith("$$ |"))
+    .map((line) => line.slice(5, -2));
+}
+
+describe("parseSGF", () => {
+  it("reads the nodes, their properties and the variations", () => {
+    const tree = parseSGF("(;GM[1]SZ[9]AB[aa][bb];B[cc](;W[dd]C[main])(;W[ee]))");
+    expect(tree.nodes.map((node) => node.properties)).toEqual([{ GM: ["1"], SZ: ["9"], AB: ["aa", "bb"] }, { B: ["cc"] }]);
+    expect(tree.variations).toHaveLength(2);
+    expect(mainLine(tree).map((node) => node.properties)).toContainEqual({ W: ["dd"], C: ["main"] });
+  });
+
+  it("unescapes the text values", () => {
+    expect(parseSGF("(;C[a \\] b \\\\ c])").nodes[0].properties.C).toEqual(["a ] b \\ c"]);
+  });
+
+  it("rejects text that is not a game tree", () => {
+    expect(() => parseSGF("no game here")).toThrow(SGFParseError);
+  });
+});
+
+describe("parsePoint", () => {
+  it("expands compressed point lists", () => {
+    expect(parsePoint("aa:bb", 19)).toEqual([[0, 0], [1, 0], [0, 1], [1, 1]]);
+  });
+
+  it("gives no point for a pass or a point off the board", () => {
+    expect(parsePoint("", 19)).toEqual([]);
+    expect(parsePoint("tt", 19)).toEqual([]);
+    expect(parsePoint("jj", 9)).toEqual([]);
+  });
+});
+
+describe("sgfToDiagram", () => {
+  it("shows the position after the last move, with the hoshi", () => {
+    const { diagram } = sgfToDiagram(parseSGF("(;SZ[9]AB[cc]AW[gg];B[ee];W[cg])"));
+    expect(diagram.split("\n")[0]).toBe("$$B9");
+    expect(rowsOf(diagram)).toEqual([
+      ". . . . . . . . .",
+      ". . . . . . . . .",
+      ". . X . . . , . .",
+      ". . . . . . . . .",
+      ". . . . X . . . .",
+      ". . . . . . . . .",
+      ". . O . . . O . .",
+      ". . . . . . . . .",
+      ". . . . . . . . .",
+    ]);
+  });
+
+  it("numbers the last moves up to the chosen one", () => {
+    const { diagram } = sgfToDiagram(parseSGF("(;SZ[9];B[ee];W[cg];B[gc])"), { move: 2, numbers: 1 });
+    expect(diagram.split("\n")[0]).toBe("$$W9m2");
+    expect(rowsOf(diagram)[4]).toBe(". . . . X . . . .");
+    expect(rowsOf(diagram)[6]).toBe(". . 1 . . . , . .");
+  });
+
+  it("writes moves on points taken earlier in the title", () => {
+    const sgf = "(;SZ[9]GN[Ko];B[ba];W[ca];B[ab];W[bb];B[cb];W[aa];B[ba];W[da];B[aa])";
+    const { diagram } = sgfToDiagram(parseSGF(sgf), { numbers: 4 });
+    expect(diagram.split("\n")[0]).toBe("$$W9m6 Ko, 4 at 1");
+    expect(rowsOf(diagram)[0]).toBe("1 2 O 3 . . . . .");
+  });
+
+  it("keeps the markup and the comment of the shown node", () => {
+    const { diagram, comment } = sgfToDiagram(parseSGF("(;SZ[9]AB[aa];CR[aa][bb]LB[cc:a]C[Look])"));
+    expect(rowsOf(diagram).slice(0, 3)).toEqual(["B . . . . . . . .", ". C . . . . . . .", ". . a . . . , . ."]);
+    expect(comment).toBe("Look");
+  });
+
+  it("writes a diagram that exports back to the same stones", () => {
+    const sgf = "(;GM[1]FF[4]CA[UTF-8]SZ[19]AB[dd][pp]AW[pd][dp])\n";
+    expect(new GoDiagram(sgfToDiagram(parseSGF(sgf)).diagram).createSGF()).toBe(sgf);
+  });
+});
+
+describe("sgfSolution", () => {
+  it("marks the lines ending on a correct node and those through a bad move", () => {
+    const solution = sgfSolution(parseSGF("(;SZ[9]AB[aa](;W[ba](;B[ca]C[Correct!])(;B[bb]))(;W[bb]BM[1];B[ba]))"));
+    const [main, bad] = solution.children;
+    expect(solution.correct).toBe(true);
+    expect(main).toMatchObject({ move: { color: "W", x: 1, y: 0 }, correct: true });
+    expect(main.children.map((child) => [child.comment, child.correct])).toEqual([["Correct!", true], ["", false]]);
+    expect(bad.correct).toBe(false);
+    expect(bad.children[0].correct).toBe(false);
+  });
+
+  it("counts every line without a bad move as correct when none is marked", () => {
+    const solution = sgfSolution(parseSGF("(;SZ[9](;B[aa];W[ba])(;B[bb]TE[1])(;B[cc]BM[1]))"));
+    expect(solution.children.map((child) => child.correct)).toEqual([false, true, false]);
+    const unmarked = sgfSolution(parseSGF("(;SZ[9](;B[aa];W[ba])(;B[cc]BM[1]))"));
+    expect(unmarked.children.map((child) => child.correct)).toEqual([true, false]);
+  });
+});
+
+describe("diagramToSGF", () => {
+  it("places a partial diagram by its borders", () => {
+    const corner = parseDiagram("$$\n$$ . . X |\n$$ . . . |\n$$ ------+");
+    expect(diagramToSGF(corner)).toContain("AB[sr]");
+  });
+
+  it("places a region where it was cut from the board", () => {
+    const rows = Array.from({ length: 19 }, (_, y) =>
+      "$$ | " + Array.from({ length: 19 }, (_, x) => (x === 9 && y === 9 ? "X" : ".")).join(" ") + " |"
+    );
+    const border = "$$ +" + "-".repeat(39) + "+";
+    const board = parseDiagram(["$$", border, ...rows, border].join("\n"));
+    expect(diagramToSGF(board)).toContain("AB[jj]");
+    expect(diagramToSGF(transformDiagram(board, { region: "H8-M12" }))).toContain("AB[jj]");
+  });
+
+  it("places a diagram at its origin", () => {
+    const placed = transformDiagram(parseDiagram("$$\n$$ . X\n$$ . ."), { origin: "K10" });
+    expect(diagramToSGF(placed)).toContain("AB[kj]");
+  });
+});
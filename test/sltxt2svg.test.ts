@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { GoDiagram } from "../src/sltxt2svg";
+
+describe("GoDiagram.createSGF", () => {
+  it("writes the stones, the markup and the letters as setup properties", () => {
+    const sgf = new GoDiagram("$$ Marks\n$$ +-------\n$$ | X O B .\n$$ | W C a .").createSGF();
+    expect(sgf).toBe("(;GM[1]FF[4]CA[UTF-8]SZ[19]GN[Marks]AB[aa][ca]AW[ba][ab]CR[ca][ab][bb]LB[cb:a])\n");
+  });
+
+  it("writes the numbered moves in numeric order, with their colors", () => {
+    const sgf = new GoDiagram("$$W\n$$ +-----\n$$ | 2 1 .\n$$ | . 3 .").createSGF();
+    expect(sgf).toBe("(;GM[1]FF[4]CA[UTF-8]SZ[19]PL[W]\n;W[ba]\n;B[aa]\n;W[bb])\n");
+  });
+
+  it("numbers the first move after the start move of the header", () => {
+    expect(new GoDiagram("$$Bm67\n$$ +---\n$$ | 1 .").createSGF()).toContain(";B[aa]MN[67]");
+  });
+
+  it("places a partial diagram on the board by its borders", () => {
+    const sgf = new GoDiagram("$$\n$$ . . X |\n$$ . . . |\n$$ ------+").createSGF();
+    expect(sgf).toContain("AB[sr]");
+  });
+
+  it("escapes the title", () => {
+    expect(new GoDiagram("$$ A [b] c\\d\n$$ +---\n$$ | . .").createSGF()).toContain("GN[A [b\\] c\\\\d]");
+  });
+});
+
+describe("GoDiagram.diagnostics", () => {
+  it("reports an error when the header is missing", () => {
+    const diagram = new GoDiagram("| . X |");
+    expect(diagram.diagnostics).toEqual([
+      { severity: "error", message: "The first line must be a diagram header starting with $$", line: 0, column: 0 },
+    ]);
+  });
+
+  it("reports warnings with the line and column of the problem", () => {
+    const diagram = new GoDiagram("$$B9q\n$$ | . X . |\n$$ | . ? |\nnot a diagram line");
+    expect(diagram.diagnostics).toEqual([
+      { severity: "warning", message: 'Unsupported header flags "q" ignored', line: 0, column: 4 },
+      { severity: "warning", message: "Line ignored: diagram lines must start with $$", line: 3, column: 0 },
+      { severity: "warning", message: "Row has 4 points instead of 5", line: 2, column: 10 },
+      { severity: "warning", message: 'Unknown symbol "?" skipped', line: 2, column: 7 },
+    ]);
+  });
+});
+
+describe("GoDiagram.createSVGString", () => {
+  it("draws the stones and the escaped caption without a DOM", () => {
+    const svg = new GoDiagram("$$B A & B\n$$ | X O . |").createSVGString();
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" /);
+    expect(svg).toContain('class="goban-stone-black"');
+    expect(svg).toContain('class="goban-stone-white"');
+    expect(svg).toContain(">A &amp; B</text>");
+  });
+
+  it("fits the image in the target width, coordinates included", () => {
+    const board = (size: number, header: string) => {
+      const edge = "$$ +" + "-".repeat(2 * size + 1) + "+";
+      return [header, edge, ...Array(size).fill("$$ | " + ". ".repeat(size) + "|"), edge].join("\n");
+    };
+    for (const size of [9, 19]) {
+      for (const header of ["$$B", "$$Bc"]) {
+        for (const width of [250, 400, 600]) {
+          const svg = new GoDiagram(board(size, header), { width }).createSVGString();
+          const rendered = Number(svg.match(/ width="(\d+)"/)?.[1]);
+          expect(rendered).toBeLessThanOrEqual(width);
+          expect(rendered).toBeGreaterThan(width - (size + 2));
+        }
+      }
+    }
+  });
+
+  it("draws the error message when the diagram cannot be parsed", () => {
+    expect(new GoDiagram("no header").createSVGString()).toContain('class="errorClass"');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { coordinateOrigin, parseDiagram } from "../src/diagram";
+import { parseSGF, sgfToDiagram } from "../src/sgf";
+import { diagramTemplate } from "../src/templates";
+
+/** Board coordinates ("D4") of the hoshi of a diagram. */
+function hoshiOf(diagram: string): string[] {
+  const model = parseDiagram(diagram);
+  const origin = coordinateOrigin(model);
+  const hoshi: string[] = [];
+  model.points.forEach((row, y) =>
+    row.forEach((point, x) => point.hoshi && hoshi.push("ABCDEFGHJKLMNOPQRST"[origin.x + x] + (origin.y - y)))
+  );
+  return hoshi;
+}
+
+describe("diagramTemplate", () => {
+  it("writes an empty board with its borders and hoshi", () => {
+    expect(diagramTemplate({ size: 9, region: "full", firstColor: "W" })).toBe(
+      [
+        "$$Wc9",
+        "$$ +-------------------+",
+        "$$ | . . . . . . . . . |",
+        "$$ | . . . . . . . . . |",
+        "$$ | . . , . . . , . . |",
+        "$$ | . . . . . . . . . |",
+        "$$ | . . . . , . . . . |",
+        "$$ | . . . . . . . . . |",
+        "$$ | . . , . . . , . . |",
+        "$$ | . . . . . . . . . |",
+        "$$ | . . . . . . . . . |",
+        "$$ +-------------------+",
+      ].join("\n")
+    );
+  });
+
+  it("places the hoshi of each board size", () => {
+    expect(hoshiOf(diagramTemplate({ size: 13, region: "full", firstColor: "B" }))).toEqual(["D10", "K10", "G7", "D4", "K4"]);
+    expect(hoshiOf(diagramTemplate({ size: 19, region: "full", firstColor: "B" }))).toHaveLength(9);
+  });
+
+  it("places the same star points as the SGF import", () => {
+    for (const size of [7, 9, 13, 15, 19]) {
+      const fromSGF = hoshiOf(sgfToDiagram(parseSGF(`(;SZ[${size}])`)).diagram);
+      expect(hoshiOf(diagramTemplate({ size, region: "full", firstColor: "B" }))).toEqual(fromSGF);
+    }
+    expect(hoshiOf(diagramTemplate({ size: 15, region: "full", firstColor: "B" }))).toHaveLength(9);
+  });
+
+  it("writes the corners and the sides at their place on the board", () => {
+    const corner = parseDiagram(diagramTemplate({ size: 19, region: "bottom-right", firstColor: "B" }));
+    expect(corner.diagnostics).toEqual([]);
+    expect([corner.width, corner.height]).toEqual([11, 11]);
+    expect(corner.borders).toEqual({ top: false, bottom: true, left: false, right: true });
+    expect(hoshiOf(diagramTemplate({ size: 19, region: "bottom-right", firstColor: "B" }))).toEqual(["K10", "Q10", "K4", "Q4"]);
+
+    const side = parseDiagram(diagramTemplate({ size: 19, region: "left", firstColor: "B" }));
+    expect([side.width, side.height]).toEqual([11, 19]);
+    expect(side.borders).toEqual({ top: true, bottom: true, left: true, right: false });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { coordinateOrigin, parseDiagram } from "../src/diagram";
+import { cropDiagram, transformCell, transformDiagram } from "../src/transform";
+
+const symbols = (rows: string[][]) => rows.map((row) => row.join(" "));
+
+describe("transformDiagram", () => {
+  const model = parseDiagram("$$\n$$ +-----\n$$ | X O\n$$ | . 1\n$$ {AR A19 B18}\n$$ [A18|Page]\n$$ [X|Other]");
+
+  it("rotates the points, the moves, the borders and the arrows clockwise", () => {
+    const turned = transformDiagram(model, { rotate: 90 });
+    expect(symbols(turned.points.map((row) => row.map((point) => point.symbol)))).toEqual([". X", "1 O"]);
+    expect(turned.borders).toMatchObject({ top: true, right: true, bottom: false, left: false });
+    expect(turned.moves[0]).toMatchObject({ x: 0, y: 1 });
+    expect(turned.overlays).toEqual([{ type: "AR", from: { x: 1, y: 0 }, to: { x: 0, y: 1 } }]);
+    expect(turned.links.map((link) => link.cell)).toEqual([{ x: 0, y: 0 }, null]);
+  });
+
+  it("flips and swaps the colors", () => {
+    const flipped = transformDiagram(model, { flip: "horizontal", swapColors: true });
+    expect(symbols(flipped.points.map((row) => row.map((point) => point.symbol)))).toEqual(["X O", "1 ."]);
+    expect(flipped.metadata.firstColor).toBe("W");
+    expect(flipped.moves[0]).toMatchObject({ x: 0, y: 1, color: "W" });
+    expect(flipped.links.map((link) => [link.anchor, link.cell])).toEqual([["A18", { x: 1, y: 1 }], ["O", null]]);
+  });
+
+  it("comes back to the same diagram after four quarter turns", () => {
+    const turned = transformDiagram(transformDiagram(model, { rotate: 180 }), { rotate: 180 });
+    expect(turned.points).toEqual(model.points);
+    expect(turned.borders).toEqual(model.borders);
+  });
+
+  it("places a diagram at its origin", () => {
+    const placed = transformDiagram(parseDiagram("$$\n$$ . X\n$$ . ."), { origin: "K10" });
+    expect(coordinateOrigin(placed)).toEqual({ x: 9, y: 10 });
+  });
+
+  it("leaves the model alone when there is nothing to do", () => {
+    expect(transformDiagram(model, {})).toBe(model);
+  });
+});
+
+describe("cropDiagram", () => {
+  const rows = Array.from({ length: 19 }, (_, y) =>
+    "$$ | " + Array.from({ length: 19 }, (_, x) => (x === 9 && y === 9 ? "X" : ".")).join(" ") + " |"
+  );
+  const border = "$$ +" + "-".repeat(39) + "+";
+  const board = parseDiagram(["$$c", border, ...rows, border].join("\n"));
+
+  it("keeps the window of a region, with its board position", () => {
+    const window = cropDiagram(board, "H8-M12");
+    expect(window.width).toBe(5);
+    expect(window.height).toBe(5);
+    expect(window.points[2][2].stone).toBe("B");
+    expect(window.borders).toEqual({ top: false, bottom: false, left: false, right: false });
+    expect(coordinateOrigin(window)).toEqual({ x: 7, y: 12 });
+  });
+
+  it("keeps the borders of the board inside the window", () => {
+    const corner = cropDiagram(board, "T1-P5");
+    expect([corner.width, corner.height]).toEqual([5, 5]);
+    expect(corner.borders).toEqual({ top: false, bottom: true, left: false, right: true });
+  });
+
+  it("leaves the diagram as it is for a region outside of it", () => {
+    expect(cropDiagram(board, "Z30-Z31")).toBe(board);
+  });
+});
+
+describe("transformCell", () => {
+  const model = parseDiagram("$$\n$$ +-------\n$$ | . . . .\n$$ | . . . .\n$$ | . . . .");
+
+  it("moves a cell as the diagram is cropped, turned and flipped", () => {
+    expect(transformCell(model, { rotate: 90 }, { x: 0, y: 0 })).toEqual({ x: 2, y: 0 });
+    expect(transformCell(model, { flip: "vertical" }, { x: 1, y: 0 })).toEqual({ x: 1, y: 2 });
+    expect(transformCell(model, { region: "B19-D18", rotate: 180 }, { x: 1, y: 0 })).toEqual({ x: 2, y: 1 });
+  });
+
+  it("gives no cell for a point cropped out", () => {
+    expect(transformCell(model, { region: "B19-D18" }, { x: 0, y: 2 })).toBe(null);
+  });
+});
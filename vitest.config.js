@@ -0,0 +1,9 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // the obsidian package only has type definitions, the API comes with the app
+    alias: { obsidian: fileURLToPath(new URL("./test/obsidian.ts", import.meta.url)) },
+  },
+});